@@ -0,0 +1,172 @@
+// brief.ts - Board brief: one self-contained, printable HTML page per run (inline styles, no scripts or external assets)
+
+import { RunEvidencePack } from './runs';
+import { formatLocator } from './grounding';
+import { formatReporting } from './money';
+import { SEVERITIES, Severity } from './types';
+
+const TOP_BLOCKERS = 5;
+
+const SEVERITY_RANK: Record<string, number> = Object.fromEntries(SEVERITIES.map((s, i) => [s, i]));
+
+const STYLE = `
+  @page { size: A4; margin: 16mm; }
+  body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; color: #0f172a; font-size: 10.5pt; line-height: 1.4; max-width: 960px; margin: 2rem auto; padding: 0 1rem; }
+  h1 { font-size: 18pt; margin: 0 0 0.25rem; }
+  h2 { font-size: 12pt; text-transform: uppercase; letter-spacing: 0.04em; color: #334155; border-bottom: 2px solid #cbd5e1; padding-bottom: 0.2rem; margin-top: 1.6rem; }
+  .meta { color: #64748b; font-size: 9pt; }
+  .summary { display: flex; gap: 0.6rem; margin-top: 1rem; }
+  .card { flex: 1; border: 1px solid #cbd5e1; border-radius: 6px; padding: 0.5rem; text-align: center; }
+  .card .n { font-size: 18pt; font-weight: 700; }
+  .card .l { font-size: 8pt; text-transform: uppercase; color: #64748b; }
+  .card.critical .n { color: #b91c1c; } .card.high .n { color: #c2410c; } .card.medium .n { color: #a16207; } .card.low .n { color: #15803d; }
+  table { width: 100%; border-collapse: collapse; margin-top: 0.5rem; }
+  th, td { text-align: left; vertical-align: top; padding: 0.3rem 0.4rem; border-bottom: 1px solid #e2e8f0; }
+  th { font-size: 8.5pt; text-transform: uppercase; color: #64748b; }
+  tr { break-inside: avoid; }
+  .sev { display: inline-block; font-size: 8pt; font-weight: 700; text-transform: uppercase; padding: 0.05rem 0.35rem; border-radius: 3px; color: #fff; }
+  .sev.critical { background: #b91c1c; } .sev.high { background: #c2410c; } .sev.medium { background: #a16207; } .sev.low { background: #15803d; }
+  .flag { font-size: 7.5pt; font-weight: 600; border: 1px solid #94a3b8; border-radius: 3px; padding: 0 0.25rem; margin-left: 0.3rem; color: #475569; }
+  .flag.blocker { border-color: #b91c1c; color: #b91c1c; }
+  .topic td { background: #f1f5f9; font-weight: 600; }
+  .resolve td { color: #475569; font-size: 9pt; }
+  .blocker { border-left: 3px solid #b91c1c; padding: 0.3rem 0.6rem; margin: 0.4rem 0; break-inside: avoid; }
+  .muted { color: #64748b; font-size: 9pt; }
+  footer { margin-top: 2rem; color: #94a3b8; font-size: 8pt; }
+  @media print { body { margin: 0; max-width: none; } }
+`;
+
+function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const severityChip = (severity: string) => `<span class="sev ${escapeHtml(severity)}">${escapeHtml(severity)}</span>`;
+
+const flagChips = (flags: string[] = []) =>
+  flags.map(f => `<span class="flag ${f === 'BLOCKER' ? 'blocker' : ''}">${escapeHtml(f.replace(/_/g, ' '))}</span>`).join('');
+
+// Signals that block other signals and BLOCKER conflicts, most severe first
+function topBlockers(run: RunEvidencePack): string {
+  const signalsById = new Map(run.signals.map(s => [s.id, s]));
+  const blocking = run.signals
+    .filter(s => s.blocker_for?.length)
+    .sort((a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity] || b.blocker_for.length - a.blocker_for.length)
+    .map(s => `
+      <div class="blocker">
+        ${severityChip(s.severity)} <strong>${escapeHtml(s.summary)}</strong> <span class="muted">(${escapeHtml(s.owner)})</span>
+        <div class="muted">Blocks: ${s.blocker_for.map((id: string) => escapeHtml(signalsById.get(id)?.summary || id)).join('; ')}</div>
+      </div>`);
+  const conflicts = run.conflicts
+    .filter(c => c.flags?.includes('BLOCKER'))
+    .map(c => `
+      <div class="blocker">
+        <strong>${escapeHtml(c.topic)}</strong>${flagChips(c.flags)}
+        <div class="muted">Resolve: ${escapeHtml(c.how_to_resolve)}</div>
+      </div>`);
+
+  const items = [...blocking, ...conflicts];
+  if (items.length === 0) return '<p class="muted">No blockers recorded.</p>';
+  const more = items.length > TOP_BLOCKERS ? `<p class="muted">and ${items.length - TOP_BLOCKERS} more</p>` : '';
+  return items.slice(0, TOP_BLOCKERS).join('') + more;
+}
+
+function signalsTable(run: RunEvidencePack): string {
+  if (run.signals.length === 0) return '<p class="muted">No signals.</p>';
+  const rows = [...run.signals]
+    .sort((a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity])
+    .map(s => `
+      <tr>
+        <td>${severityChip(s.severity)}</td>
+        <td>${escapeHtml(s.summary)}${s.value !== undefined ? `<div class="muted">${escapeHtml(s.value)}${escapeHtml(formatReporting(s.money))}</div>` : ''}</td>
+        <td>${escapeHtml(s.owner)}</td>
+        <td class="muted">${(s.evidence || []).map((e: any) => `${escapeHtml(e.source)} ${escapeHtml(formatLocator(e))}`).join('<br>')}</td>
+      </tr>`);
+  return `<table><tr><th>Severity</th><th>Signal</th><th>Owner</th><th>Evidence</th></tr>${rows.join('')}</table>`;
+}
+
+// Claims grouped under their conflict, ordered by definition and value date so the competing figures line up
+function conflictsTable(run: RunEvidencePack): string {
+  if (run.conflicts.length === 0) return '<p class="muted">No conflicts.</p>';
+  const groups = run.conflicts.map(c => {
+    const claims = [...(c.claims || [])].sort((a: any, b: any) =>
+      String(a.definition || '').localeCompare(String(b.definition || '')) ||
+      String(a.value_date || '').localeCompare(String(b.value_date || ''))
+    );
+    return `
+      <tr class="topic"><td colspan="4">${escapeHtml(c.topic)}${flagChips(c.flags)}</td></tr>
+      ${claims.map((cl: any) => `
+        <tr>
+          <td>${escapeHtml(cl.definition || 'unknown')}</td>
+          <td>${escapeHtml(cl.value_date || '-')}</td>
+          <td><strong>${escapeHtml(cl.value)}</strong>${escapeHtml(formatReporting(cl.money))}</td>
+          <td class="muted">${escapeHtml(cl.source)} ${escapeHtml(formatLocator(cl))}</td>
+        </tr>`).join('')}
+      <tr class="resolve"><td colspan="4">Resolve: ${escapeHtml(c.how_to_resolve)}</td></tr>`;
+  });
+  return `<table><tr><th>Definition</th><th>Value date</th><th>Value</th><th>Source</th></tr>${groups.join('')}</table>`;
+}
+
+function nextChecksTable(run: RunEvidencePack): string {
+  if (run.next_checks.length === 0) return '<p class="muted">No next checks.</p>';
+  const rows = [...run.next_checks]
+    .sort((a, b) => a.priority - b.priority)
+    .map(n => `
+      <tr>
+        <td>${escapeHtml(n.priority)}</td>
+        <td>${escapeHtml(n.question)}<div class="muted">Done when: ${escapeHtml(n.done_when)}</div></td>
+        <td>${escapeHtml(n.assignee || n.owner)}</td>
+        <td>${escapeHtml((n.status || 'open').replace('_', ' '))}</td>
+      </tr>`);
+  return `<table><tr><th>#</th><th>Check</th><th>Owner</th><th>Status</th></tr>${rows.join('')}</table>`;
+}
+
+export function generateBrief(run: RunEvidencePack): string {
+  const meta = run.run_meta;
+  const counts = Object.fromEntries(SEVERITIES.map(s => [s, run.signals.filter(sig => sig.severity === s).length])) as Record<Severity, number>;
+  const openChecks = run.next_checks.filter(n => n.status !== 'done').length;
+  const review = run.review_summary
+    ? ` · Review: ${run.review_summary.accepted} accepted, ${run.review_summary.edited} edited, ${run.review_summary.rejected} rejected, ${run.review_summary.pending} pending${run.approved_only ? ' (approved items only)' : ''}`
+    : '';
+
+  const cards = [
+    ...SEVERITIES.map(s => `<div class="card ${s}"><div class="n">${counts[s]}</div><div class="l">${s}</div></div>`),
+    `<div class="card"><div class="n">${run.conflicts.length}</div><div class="l">Conflicts</div></div>`,
+    `<div class="card"><div class="n">${openChecks}</div><div class="l">Open checks</div></div>`,
+  ];
+  const drops = run.drops.length
+    ? `<h2>Not Extracted</h2><ul>${run.drops.map(d => `<li>${escapeHtml(d.what)} <span class="muted">- ${escapeHtml(d.would_fix)}</span></li>`).join('')}</ul>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Board Brief - ${escapeHtml(meta.pack_id)} - ${escapeHtml(meta.created_at.slice(0, 10))}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<h1>Board Brief: ${escapeHtml(meta.pack_id)}</h1>
+<div class="meta">${escapeHtml(meta.created_at.slice(0, 10))} · Run ${escapeHtml(meta.run_id)} · ${escapeHtml(meta.model)}${meta.profile ? ` · ${escapeHtml(meta.profile)}` : ''}${escapeHtml(review)}</div>
+<div class="summary">${cards.join('')}</div>
+
+<h2>Top Blockers</h2>
+${topBlockers(run)}
+
+<h2>Signals</h2>
+${signalsTable(run)}
+
+<h2>Conflicts</h2>
+${conflictsTable(run)}
+
+<h2>Next Checks</h2>
+${nextChecksTable(run)}
+${drops}
+<footer>Generated from ${run.inputs.length} documents (${run.inputs.map(i => escapeHtml(i.doc_id)).join(', ')}). Quotes and page references for every figure are in the run evidence pack (GET /runs/${escapeHtml(meta.run_id)}).</footer>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,91 @@
+// cache.ts - Compile cache keyed on input content, prompt, provider, model and generation config
+
+import { readFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { createHash } from 'crypto';
+import { SignalPack } from './types';
+import { GenerateOptions } from './providers';
+import { PackConfig, PROJECT_ROOT } from './packs';
+import { RunEvidencePack, listRuns, getRun } from './runs';
+
+export interface InputHash {
+  doc_id: string;
+  sha256: string;
+}
+
+// Everything besides the documents that determines a run's output
+export interface CacheConfig {
+  config_hash: string;
+  provider: string;         // Replay and a live model may share a model ID but not their output
+  model: string;
+  generation: GenerateOptions;
+  severity_mode?: string;
+  extraction?: string;      // Extraction mode and chunk size
+  fx?: string;              // Reporting currency and FX table version
+  templates?: string;       // Next-check template registry version and content hash
+  profile?: string;         // Domain profile ID, version and content hash
+}
+
+// SHA-256 of every pack file that exists, in pack order
+export function hashInputs(pack: PackConfig): InputHash[] {
+  return pack.files
+    .filter(file => existsSync(join(PROJECT_ROOT, file.filename)))
+    .map(file => ({
+      doc_id: file.doc_id,
+      sha256: createHash('sha256').update(readFileSync(join(PROJECT_ROOT, file.filename))).digest('hex'),
+    }));
+}
+
+export function cacheKey(inputs: InputHash[], config: CacheConfig): string {
+  const { signal, onText, ...generation } = config.generation;
+  return createHash('sha256')
+    .update(JSON.stringify({
+      inputs: inputs.map(i => [i.doc_id, i.sha256]),
+      config_hash: config.config_hash,
+      provider: config.provider,
+      model: config.model,
+      generation,
+      severity_mode: config.severity_mode || 'override',
+      extraction: config.extraction || 'single',
+      fx: config.fx || 'none',
+      templates: config.templates || 'none',
+      profile: config.profile || 'none',
+    }))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+// Newest stored run produced from exactly this key
+export function findCachedRun(packId: string, key: string): RunEvidencePack | undefined {
+  const [hit] = listRuns({ pack: packId, cache_key: key, limit: 1 });
+  return hit ? getRun(hit.run_id) : undefined;
+}
+
+// Stored as run_meta.inputs_hash: every file that was hashed, including any that then failed to ingest and so is
+// missing from run.inputs
+export function inputsHash(inputs: InputHash[]): string {
+  return createHash('sha256').update(JSON.stringify(inputs.map(i => [i.doc_id, i.sha256]))).digest('hex').slice(0, 16);
+}
+
+// True when the run was compiled from different documents than the pack holds now
+export function inputsChanged(run: RunEvidencePack, current: InputHash[]): boolean {
+  if (run.run_meta?.inputs_hash) return run.run_meta.inputs_hash !== inputsHash(current);
+
+  // Runs from before inputs_hash only list the documents that were ingested
+  const previous = (run.inputs || []).map(i => `${i.doc_id}:${i.sha256}`);
+  const now = current.map(i => `${i.doc_id}:${i.sha256}`);
+  return previous.length !== now.length || previous.some((entry, i) => entry !== now[i]);
+}
+
+// The SignalPack a stored run was returned as
+export function runToSignalPack(run: RunEvidencePack): SignalPack {
+  return {
+    case_id: run.run_meta?.pack_id,
+    processed_at: run.run_meta?.created_at || new Date().toISOString(),
+    run_id: run.run_meta?.run_id,
+    signals: run.signals || [],
+    conflicts: run.conflicts || [],
+    drops: run.drops || [],
+    next_checks: run.next_checks || [],
+  };
+}
@@ -0,0 +1,225 @@
+// checks.ts - Next-check lifecycle: status, assignee, answers and supporting files, kept per pack across runs
+
+import { readFileSync, existsSync, writeFileSync, mkdirSync, rmSync } from 'fs';
+import { join, extname, relative } from 'path';
+import { NextCheck, NextCheckTemplate, CheckStatus, CHECK_STATUSES } from './types';
+import { PackConfig, UploadedFile, PROJECT_ROOT, validateUpload } from './packs';
+import { RunEvidencePack, packRunsDir } from './runs';
+import { matchNextChecks } from './diff';
+import { withCovenant } from './covenant';
+
+// What reviewers recorded on one check. Stored per pack, so it outlives the run it was recorded on.
+export interface CheckState {
+  check_id: string;
+  template: NextCheckTemplate;
+  owner: string;
+  question: string;
+  slots?: NextCheck['slots'];   // Kept to recognize the check when a later run words it differently
+  status: CheckStatus;
+  assignee?: string;
+  answer?: string;
+  attachments?: { doc_id: string; filename: string; original_name: string }[];
+  run_id: string;               // Run it was last updated on
+  updated_at: string;
+}
+
+export interface CheckUpdate {
+  status?: string;
+  assignee?: string;
+  answer?: string;
+}
+
+// Validation failures that should surface as 400s
+export class CheckError extends Error {}
+
+// The document answered checks are fed back to the model as
+export const ANSWERS_DOC_ID = 'check-answers';
+
+// runs/<pack id>/checks/: state.json, answers.md and one folder of supporting files per check
+function checksDir(packId: string): string {
+  return join(packRunsDir(packId), 'checks');
+}
+
+function statePath(packId: string): string {
+  return join(checksDir(packId), 'state.json');
+}
+
+export function loadCheckStates(packId: string): Record<string, CheckState> {
+  const path = statePath(packId);
+  if (!existsSync(path)) return {};
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (e) {
+    console.warn(`[checks] Unreadable check state for ${packId}:`, e instanceof Error ? e.message : e);
+    return {};
+  }
+}
+
+function saveCheckStates(packId: string, states: Record<string, CheckState>): void {
+  mkdirSync(checksDir(packId), { recursive: true });
+  writeFileSync(statePath(packId), JSON.stringify(states, null, 2));
+}
+
+// Lifecycle fields of a state, as they appear on a NextCheck
+function lifecycle(state: CheckState): Partial<NextCheck> {
+  return {
+    status: state.status,
+    ...(state.assignee ? { assignee: state.assignee } : {}),
+    ...(state.answer ? { answer: state.answer } : {}),
+    ...(state.attachments?.length ? { attachments: state.attachments.map(a => a.doc_id) } : {}),
+    updated_at: state.updated_at,
+  };
+}
+
+const asCheck = (state: CheckState): NextCheck => ({
+  id: state.check_id,
+  priority: 0,
+  owner: state.owner,
+  template: state.template,
+  question: state.question,
+  done_when: '',
+  slots: state.slots,
+});
+
+// Apply recorded states to a new run's checks: by ID, else to the check that matches a state's content
+export function carryOverChecks(packId: string, checks: NextCheck[]): NextCheck[] {
+  const states = Object.values(loadCheckStates(packId));
+  if (states.length === 0) return checks;
+
+  const byId = new Map(states.map(s => [s.check_id, s]));
+  const unmatched = checks.filter(c => !c.id || !byId.has(c.id));
+  const orphans = states.filter(s => !checks.some(c => c.id === s.check_id));
+  const matched = new Map(
+    matchNextChecks(orphans.map(asCheck), unmatched).map(([state, check]) => [check, byId.get(state.id!)!])
+  );
+
+  let carried = 0;
+  const result = checks.map(check => {
+    const state = (check.id && byId.get(check.id)) || matched.get(check);
+    if (!state) return check;
+    carried++;
+    return { ...check, ...lifecycle(state) };
+  });
+
+  console.log(`[checks] ${carried} of ${checks.length} next checks carried over (${states.length} recorded for ${packId})`);
+  return result;
+}
+
+// The run with its covenant result and the recorded states applied to its checks by ID, as an overlay: the stored
+// run keeps the compiled checks. A recorded status wins over the covenant's; the covenant adds the result.
+export function checkedRun(run: RunEvidencePack): RunEvidencePack {
+  const states = loadCheckStates(run.run_meta.pack_id);
+  const calculated = withCovenant(run);
+  return {
+    ...calculated,
+    next_checks: calculated.next_checks.map((check: NextCheck) => {
+      const state = check.id ? states[check.id] : undefined;
+      return state ? { ...check, ...lifecycle(state) } : check;
+    }),
+  };
+}
+
+// Record a status, assignee, answer and/or supporting files on one check of a stored run. Only the pack's check
+// state is written; the run shows it through checkedRun.
+export function updateCheck(
+  run: RunEvidencePack,
+  checkId: string,
+  update: CheckUpdate,
+  files: UploadedFile[] = []
+): { run: RunEvidencePack; check: NextCheck } {
+  const packId = run.run_meta.pack_id;
+  const index = run.next_checks.findIndex((c: NextCheck) => c.id === checkId);
+  if (index < 0) throw new CheckError(`Unknown next check "${checkId}"`);
+
+  if (update.status !== undefined && !(CHECK_STATUSES as readonly string[]).includes(update.status)) {
+    throw new CheckError(`Invalid status "${update.status}" (${CHECK_STATUSES.join(', ')})`);
+  }
+  for (const file of files) {
+    const error = validateUpload(file);
+    if (error) throw new CheckError(error);
+  }
+
+  const check: NextCheck = run.next_checks[index];
+  const states = loadCheckStates(packId);
+  const previous = states[checkId];
+  const now = new Date().toISOString();
+
+  // Supporting files are stored next to the state and become documents of the next compile
+  const dir = join(checksDir(packId), checkId);
+  const attachments = [...(previous?.attachments || [])];
+  for (const file of files) {
+    mkdirSync(dir, { recursive: true });
+    const docId = `${checkId.toLowerCase()}-${file.doc_id}`;
+    const path = join(dir, `${file.doc_id}${extname(file.originalname).toLowerCase()}`);
+    writeFileSync(path, file.buffer);
+    const stored = { doc_id: docId, filename: relative(PROJECT_ROOT, path).split('\\').join('/'), original_name: file.originalname };
+    const existing = attachments.findIndex(a => a.doc_id === docId);
+    if (existing >= 0) attachments[existing] = stored;
+    else attachments.push(stored);
+  }
+
+  const state: CheckState = {
+    check_id: checkId,
+    template: check.template,
+    owner: check.owner,
+    question: check.question,
+    ...(check.slots ? { slots: check.slots } : {}),
+    status: (update.status as CheckStatus) || previous?.status || check.status || 'open',
+    assignee: update.assignee ?? previous?.assignee,
+    answer: update.answer ?? previous?.answer,
+    ...(attachments.length ? { attachments } : {}),
+    run_id: run.run_meta.run_id,
+    updated_at: now,
+  };
+  if (!state.assignee) delete state.assignee;
+  if (!state.answer) delete state.answer;
+
+  states[checkId] = state;
+  saveCheckStates(packId, states);
+
+  const updated: NextCheck = { ...check, ...lifecycle(state) };
+  const next_checks = run.next_checks.map((c: NextCheck, i: number) => (i === index ? updated : c));
+
+  console.log(`[checks] ${packId} ${checkId}: ${state.status}${state.answer ? ', answered' : ''}${files.length ? `, ${files.length} file(s)` : ''}`);
+  return { run: { ...run, next_checks }, check: updated };
+}
+
+// Checks with an answer or a supporting file, as a text document the model can cite
+function answersDocument(packId: string, states: CheckState[]): string {
+  let doc = `# Answers to next checks\n\n`;
+  doc += `Recorded by reviewers of pack ${packId}. Each answer is authoritative for its question and supersedes the figures it resolves.\n`;
+
+  for (const state of states) {
+    doc += `\n## ${state.check_id} (${state.template}) - ${state.status}\n`;
+    doc += `Owner: ${state.owner}${state.assignee ? ` | Assignee: ${state.assignee}` : ''}\n`;
+    doc += `Question: ${state.question}\n`;
+    if (state.answer) doc += `Answer: ${state.answer}\n`;
+    for (const file of state.attachments || []) {
+      doc += `Supporting file: ${file.doc_id} (${file.original_name})\n`;
+    }
+  }
+  return doc;
+}
+
+// The pack plus the answers document and supporting files, so answered checks are evidence for the next compile
+export function withAnswers(pack: PackConfig): PackConfig {
+  const answered = Object.values(loadCheckStates(pack.id))
+    .filter(s => s.answer || s.attachments?.length)
+    .sort((a, b) => a.check_id.localeCompare(b.check_id));
+
+  const path = join(checksDir(pack.id), 'answers.md');
+  if (answered.length === 0) {
+    rmSync(path, { force: true });
+    return pack;
+  }
+
+  mkdirSync(checksDir(pack.id), { recursive: true });
+  writeFileSync(path, answersDocument(pack.id, answered));
+
+  const files = [
+    { doc_id: ANSWERS_DOC_ID, filename: relative(PROJECT_ROOT, path).split('\\').join('/') },
+    ...answered.flatMap(s => (s.attachments || []).map(a => ({ doc_id: a.doc_id, filename: a.filename }))),
+  ];
+  console.log(`[checks] ${answered.length} answered checks added to ${pack.id} as ${files.length} documents`);
+  return { ...pack, files: [...pack.files, ...files] };
+}
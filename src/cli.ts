@@ -0,0 +1,211 @@
+#!/usr/bin/env node
+// cli.ts - Headless compile: packs or directories of documents to run JSON and Markdown, without the server
+//
+//   signal-compiler compile <dir|packId>... [--all] [--out <path>] [--md <path>] [--provider <id>] [--model <id>]
+//                           [--profile <id>] [--fail-on <severity>[:<count>]] [--force]
+//
+// Exit codes: 0 = compiled (and below --fail-on), 1 = bad arguments or a compile failed, 2 = --fail-on reached
+
+import { existsSync, statSync, readdirSync, writeFileSync, mkdirSync } from 'fs';
+import { join, resolve, relative, basename, extname, dirname } from 'path';
+import { PACKS, PackConfig, PROJECT_ROOT, ID_PATTERN, loadPacks, defaultDocId } from './packs';
+import { SUPPORTED_EXTENSIONS } from './ingest';
+import { createProvider } from './providers';
+import { loadProfile, listProfiles } from './profiles';
+import { RunEvidencePack, getRun } from './runs';
+import { reviewedRun } from './reviews';
+import { checkedRun } from './checks';
+import { compileSignals } from './compile';
+import { generateMarkdown } from './report';
+import { SEVERITIES, Severity } from './types';
+
+interface CliOptions {
+  targets: string[];   // Pack IDs from packs.json or directories of documents
+  all: boolean;        // Every pack in packs.json, after the targets
+  out?: string;        // Run JSON: a file, or a directory of <pack id>.json in batch mode
+  md?: string;         // Markdown report, like out
+  provider?: string;
+  model?: string;
+  profile?: string;    // Overrides the pack's profile; directories default to treasury_ops
+  failOn?: { severity: Severity; count: number };
+  force: boolean;      // Recompile even when a cached run has the same key
+}
+
+interface PackOutcome {
+  pack_id: string;
+  run_id?: string;
+  cache?: string;
+  counts?: Record<Severity, number>;
+  conflicts?: number;
+  threshold_reached?: boolean;
+  error?: string;
+}
+
+const USAGE = `Usage: signal-compiler compile <dir|packId>... [--all] [--out <path>] [--md <path>]
+         [--provider <id>] [--model <id>] [--profile <id>] [--fail-on <severity>[:<count>]] [--force]
+
+  --out, --md   Write the run JSON / Markdown report. With several packs, a directory of <pack id>.json / .md
+  --fail-on     Exit 2 when at least <count> (default 1) signals are at <severity> or above`;
+
+// "high" or "high:3"
+function parseFailOn(value: string): CliOptions['failOn'] {
+  const [severity, count = '1'] = value.split(':');
+  if (!(SEVERITIES as readonly string[]).includes(severity)) {
+    throw new Error(`Invalid --fail-on severity "${severity}" (${SEVERITIES.join(', ')})`);
+  }
+  if (!/^[1-9]\d*$/.test(count)) throw new Error(`Invalid --fail-on count "${count}"`);
+  return { severity: severity as Severity, count: Number(count) };
+}
+
+function parseArgs(args: string[]): CliOptions {
+  const [command, ...rest] = args;
+  if (command !== 'compile') throw new Error(command ? `Unknown command "${command}"\n${USAGE}` : USAGE);
+
+  const options: CliOptions = { targets: [], all: false, force: false };
+  for (let i = 0; i < rest.length; i++) {
+    const value = () => {
+      if (i + 1 >= rest.length) throw new Error(`${rest[i]} needs a value\n${USAGE}`);
+      return rest[++i];
+    };
+    switch (rest[i]) {
+      case '--all': options.all = true; break;
+      case '--out': options.out = value(); break;
+      case '--md': options.md = value(); break;
+      case '--provider': options.provider = value(); break;
+      case '--model': options.model = value(); break;
+      case '--profile': options.profile = value(); break;
+      case '--fail-on': options.failOn = parseFailOn(value()); break;
+      case '--force': options.force = true; break;
+      default:
+        if (rest[i].startsWith('--')) throw new Error(`Unknown argument "${rest[i]}"\n${USAGE}`);
+        options.targets.push(rest[i]);
+    }
+  }
+
+  if (options.targets.length === 0 && !options.all) throw new Error(`Nothing to compile\n${USAGE}`);
+  if (options.profile && !loadProfile(options.profile)) {
+    throw new Error(`Unknown profile "${options.profile}" (${listProfiles().map(p => p.id).join(', ')})`);
+  }
+  return options;
+}
+
+const isDirectory = (path: string) => existsSync(path) && statSync(path).isDirectory();
+
+// A pack that is not in packs.json: every supported file directly in the directory, named after the directory
+function directoryPack(dir: string): PackConfig {
+  const root = resolve(dir);
+  const id = defaultDocId(basename(root));
+  if (!ID_PATTERN.test(id)) throw new Error(`Directory name "${basename(root)}" does not make a valid pack ID; rename the directory`);
+  if (PACKS[id]) {
+    throw new Error(`Directory ${dir} has the ID of pack "${id}" in packs.json; compile the pack by ID or rename the directory`);
+  }
+
+  const names = readdirSync(root)
+    .filter(name => SUPPORTED_EXTENSIONS.includes(extname(name).toLowerCase()) && statSync(join(root, name)).isFile())
+    .sort();
+  if (names.length === 0) throw new Error(`${dir} has no supported documents (${SUPPORTED_EXTENSIONS.join(', ')})`);
+
+  // Like checks.ts attachments, filenames are relative to the project root
+  const seen = new Set<string>();
+  const files = names.map(name => {
+    let docId = defaultDocId(name);
+    for (let n = 2; seen.has(docId); n++) docId = `${defaultDocId(name)}-${n}`;
+    seen.add(docId);
+    return { doc_id: docId, filename: relative(PROJECT_ROOT, join(root, name)).split('\\').join('/') };
+  });
+  return { id, name: basename(root), files };
+}
+
+function resolveTarget(target: string, profile?: string): PackConfig {
+  const pack = isDirectory(target) ? directoryPack(target) : PACKS[target];
+  if (!pack) throw new Error(`"${target}" is neither a directory nor a pack (${Object.keys(PACKS).join(', ')})`);
+  return profile ? { ...pack, profile } : pack;
+}
+
+function severityCounts(run: RunEvidencePack): Record<Severity, number> {
+  const counts = Object.fromEntries(SEVERITIES.map(s => [s, 0])) as Record<Severity, number>;
+  for (const signal of run.signals) if (signal.severity in counts) counts[signal.severity as Severity]++;
+  return counts;
+}
+
+function thresholdReached(counts: Record<Severity, number>, failOn: CliOptions['failOn']): boolean {
+  if (!failOn) return false;
+  const atOrAbove = SEVERITIES.slice(0, SEVERITIES.indexOf(failOn.severity) + 1);
+  return atOrAbove.reduce((sum, s) => sum + counts[s], 0) >= failOn.count;
+}
+
+function writeOutput(option: string | undefined, batch: boolean, packId: string, extension: string, content: string): void {
+  if (!option) return;
+  const path = batch || isDirectory(option) ? join(option, `${packId}${extension}`) : option;
+  mkdirSync(dirname(resolve(path)), { recursive: true });
+  writeFileSync(path, content);
+  console.log(`[cli] Wrote ${path}`);
+}
+
+async function compileTarget(target: string, options: CliOptions, batch: boolean): Promise<PackOutcome> {
+  const pack = resolveTarget(target, options.profile);
+  const provider = createProvider({ provider: options.provider || pack.provider, model: options.model || pack.model });
+
+  console.log(`[cli] Compiling ${pack.id} (${pack.files.length} files) with ${provider.name}:${provider.model}...`);
+  const compiled = await compileSignals(pack, provider, {}, options.force);
+  // A fallback is an older run; a scheduled job should notice rather than report stale findings as current
+  if (compiled.cache?.status === 'fallback') throw new Error('Live compile failed and only an older run is available');
+  const stored = compiled.run_id ? getRun(compiled.run_id) : undefined;
+  if (!stored) throw new Error(`Run ${compiled.run_id} is not stored`);
+
+  // Same content as GET /export/:packId and /md
+  const run = reviewedRun(checkedRun(stored));
+  writeOutput(options.out, batch, pack.id, '.json', JSON.stringify(run, null, 2));
+  writeOutput(options.md, batch, pack.id, '.md', generateMarkdown(run));
+
+  const counts = severityCounts(run);
+  return {
+    pack_id: pack.id,
+    run_id: run.run_meta.run_id,
+    cache: compiled.cache?.status || 'miss',
+    counts,
+    conflicts: run.conflicts.length,
+    threshold_reached: thresholdReached(counts, options.failOn),
+  };
+}
+
+function printSummary(outcomes: PackOutcome[], failOn: CliOptions['failOn']): void {
+  console.log(`\n${'Pack'.padEnd(28)} ${'Critical'.padStart(8)} ${'High'.padStart(5)} ${'Medium'.padStart(7)} ${'Low'.padStart(4)} ${'Conflicts'.padStart(9)}  Run`);
+  for (const o of outcomes) {
+    if (o.error) {
+      console.log(`${o.pack_id.padEnd(28)} FAILED: ${o.error}`);
+      continue;
+    }
+    const c = o.counts!;
+    const flag = o.threshold_reached ? `  << ${failOn!.severity}${failOn!.count > 1 ? ` x${failOn!.count}` : ''}` : '';
+    console.log(
+      `${o.pack_id.padEnd(28)} ${String(c.critical).padStart(8)} ${String(c.high).padStart(5)} ${String(c.medium).padStart(7)} ${String(c.low).padStart(4)} ` +
+      `${String(o.conflicts).padStart(9)}  ${o.run_id} (${o.cache})${flag}`
+    );
+  }
+}
+
+async function main(): Promise<void> {
+  loadPacks();
+  const options = parseArgs(process.argv.slice(2));
+  const targets = [...new Set([...options.targets, ...(options.all ? Object.keys(PACKS) : [])])];
+  const batch = targets.length > 1;
+
+  const outcomes: PackOutcome[] = [];
+  for (const target of targets) {
+    try {
+      outcomes.push(await compileTarget(target, options, batch));
+    } catch (error) {
+      outcomes.push({ pack_id: target, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  printSummary(outcomes, options.failOn);
+  if (outcomes.some(o => o.error)) process.exitCode = 1;
+  else if (outcomes.some(o => o.threshold_reached)) process.exitCode = 2;
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
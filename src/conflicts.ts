@@ -0,0 +1,217 @@
+// conflicts.ts - Rules-based conflict detection over the claims, checked against the model's conflicts
+
+import { Signal, Conflict, ConflictClaim, ConflictFlag, ConflictType } from './types';
+import { Quantity, parseQuantities, sameQuantity, valueInQuotes, currencyOf } from './numbers';
+import { tokenize } from './grounding';
+
+// Where the detector disagrees with the model
+export interface ConflictCheck {
+  conflict_id: string;
+  kind: 'missed' | 'flag_added' | 'flag_removed' | 'type_mismatch';
+  detail: string;
+}
+
+// One extracted money or quantity fact
+interface Fact {
+  claim: ConflictClaim;
+  key: string;            // source + normalized quote, to dedupe the same claim cited twice
+  amount: Quantity;
+  definition: string;     // 'unknown' when missing
+  subject: string;        // What the fact is about; only facts about the same subject are compared
+}
+
+// Conflict types whose claims are amounts the detector can compare
+const MONEY_TYPES: ConflictType[] = ['liquidity.cash_definition', 'liquidity.cash_amount'];
+const QUANTITY_TYPES: ConflictType[] = ['logistics.quantity', 'ops.inventory_count'];
+
+// Signals that report the same facts as a conflict type: their evidence quotes are claims too
+const SIGNAL_FACTS: Record<string, ConflictType> = {
+  'liquidity.cash_discrepancy': 'liquidity.cash_amount',
+  'ops.inventory_discrepancy': 'ops.inventory_count',
+  'ops.receipt_discrepancy': 'logistics.quantity',
+};
+
+// Flags derived from claim data; BLOCKER stays the model's call
+const DERIVED_FLAGS: ConflictFlag[] = ['VALUE_DATE_MISMATCH', 'DEFINITION_UNKNOWN'];
+
+const claimKey = (claim: ConflictClaim) => `${(claim.source || '').toLowerCase()}|${tokenize(claim.quote || '').join(' ')}`;
+
+// Claims converted to the reporting currency are compared there, so EUR and USD figures line up.
+// A bare number takes the currency money.ts found for the claim.
+function toFact(claim: ConflictClaim, subject: string): Fact | undefined {
+  const written = parseQuantities(claim.value || '')[0];
+  if (!written) return undefined;
+  const reporting = claim.money?.reporting;
+  const amount: Quantity = reporting
+    ? { amount: reporting.amount, step: written.step * reporting.rate, unit: reporting.currency }
+    : { ...written, unit: written.unit || claim.money?.currency };
+  const definition = (claim.definition || 'unknown').toLowerCase();
+  return { claim, key: claimKey(claim), amount, definition, subject };
+}
+
+// A signal's evidence as claims: each quote that states exactly one number, so there is no doubt which figure the
+// source gives. The span's amount, or the signal's value where the quote states it, supplies the currency.
+function signalClaims(signal: Signal): ConflictClaim[] {
+  return (signal.evidence || []).flatMap(ev => {
+    if (parseQuantities(ev.quote || '').length !== 1) return [];
+    const currency = signal.money?.currency || currencyOf(signal.unit);
+    const value = signal.value !== undefined && valueInQuotes(signal.value, [ev.quote], currency) ? signal : undefined;
+    const money = ev.money || value?.money;
+    return [{
+      source: ev.source,
+      value: ev.quote,
+      quote: ev.quote,
+      ...(ev.page ? { page: ev.page } : {}),
+      ...(ev.line ? { line: ev.line } : {}),
+      ...(ev.sheet ? { sheet: ev.sheet, cell: ev.cell } : {}),
+      ...(ev.grounding ? { grounding: ev.grounding } : {}),
+      ...(money ? { money } : {}),
+    }];
+  });
+}
+
+// Claims of the given conflict types and of the signals that report the same facts, once each.
+// subjectOf names what a conflict's or signal's facts are about.
+function factsOf(
+  types: ConflictType[],
+  conflicts: Conflict[],
+  signals: Signal[],
+  subjectOf: (item: Conflict | Signal) => string
+): Fact[] {
+  const facts = new Map<string, Fact>();
+  const add = (claims: ConflictClaim[], subject: string) => {
+    for (const claim of claims) {
+      const fact = toFact(claim, subject);
+      if (fact && !facts.has(fact.key)) facts.set(fact.key, fact);
+    }
+  };
+  for (const conflict of conflicts) {
+    if (types.includes(conflict.type)) add(conflict.claims || [], subjectOf(conflict));
+  }
+  for (const signal of signals) {
+    if (types.includes(SIGNAL_FACTS[signal.type])) add(signalClaims(signal), subjectOf(signal));
+  }
+  return [...facts.values()];
+}
+
+function groupBy(facts: Fact[], keyOf: (fact: Fact) => string): Map<string, Fact[]> {
+  const groups = new Map<string, Fact[]>();
+  for (const fact of facts) groups.set(keyOf(fact), [...(groups.get(keyOf(fact)) || []), fact]);
+  return groups;
+}
+
+const sources = (facts: Fact[]) => new Set(facts.map(f => (f.claim.source || '').toLowerCase().replace(/\.[a-z0-9]{2,4}$/, '')));
+
+// Amounts that cannot all be the same number
+const amountsDiffer = (facts: Fact[]) => facts.some(f => !sameQuantity(f.amount, facts[0].amount));
+
+// Flags the claim data supports
+function deriveFlags(claims: ConflictClaim[], money: boolean): ConflictFlag[] {
+  const flags: ConflictFlag[] = [];
+  const dates = new Set(claims.map(cl => cl.value_date).filter(Boolean));
+  if (dates.size >= 2) flags.push('VALUE_DATE_MISMATCH');
+  if (money && claims.some(cl => !cl.definition || cl.definition.toLowerCase() === 'unknown')) flags.push('DEFINITION_UNKNOWN');
+  return flags;
+}
+
+// Conflicts the claims and signal evidence alone justify
+function detect(conflicts: Conflict[], signals: Signal[]): Conflict[] {
+  const detected: Conflict[] = [];
+
+  // Every cash figure of the pack is about the pack's cash position; definitions tell them apart
+  const money = factsOf(MONEY_TYPES, conflicts, signals, () => 'cash');
+  const byDefinition = groupBy(money, f => f.definition);
+
+  // Same definition, different amounts, more than one source
+  for (const [definition, facts] of byDefinition) {
+    if (definition === 'unknown' || sources(facts).size < 2 || !amountsDiffer(facts)) continue;
+    detected.push({
+      id: '',
+      type: 'liquidity.cash_amount',
+      topic: `Cash amount (${definition})`,
+      claims: facts.map(f => f.claim),
+      how_to_resolve: `Align the ${definition} figures to one value date and source, then reconcile the difference`,
+    });
+  }
+
+  // Different or unknown definitions across sources
+  if ((byDefinition.size >= 2 || byDefinition.has('unknown')) && sources(money).size >= 2 && amountsDiffer(money)) {
+    detected.push({
+      id: '',
+      type: 'liquidity.cash_definition',
+      topic: 'Cash position by definition',
+      claims: money.map(f => f.claim),
+      how_to_resolve: 'Execute cash_reconciliation: classify each figure by definition and reconcile to the bank',
+    });
+  }
+
+  // Quantities that differ between sources, per topic and unit: counts of different goods are not compared.
+  // A conflict's topic names its goods; a signal's evidence is about one thing.
+  for (const type of QUANTITY_TYPES) {
+    const facts = factsOf([type], conflicts, signals, item =>
+      'topic' in item ? tokenize(item.topic || '').join(' ') : item.id
+    );
+    for (const group of groupBy(facts, f => `${f.subject}|${f.amount.unit || ''}`).values()) {
+      if (sources(group).size < 2 || !amountsDiffer(group)) continue;
+      detected.push({
+        id: '',
+        type,
+        topic: type === 'ops.inventory_count' ? 'Inventory count' : 'Shipped vs received quantity',
+        claims: group.map(f => f.claim),
+        how_to_resolve: 'Confirm the count against the source record with the later value date',
+      });
+    }
+  }
+
+  return detected.map(c => {
+    const flags = deriveFlags(c.claims, MONEY_TYPES.includes(c.type));
+    return flags.length ? { ...c, flags } : c;
+  });
+}
+
+// A model conflict covers a detected one if it is the same type and shares at least two of its claims
+function covers(model: Conflict, found: Conflict): boolean {
+  if (model.type !== found.type) return false;
+  const keys = new Set((model.claims || []).map(claimKey));
+  return found.claims.filter(cl => keys.has(claimKey(cl))).length >= 2;
+}
+
+// Re-derive flags on the model's conflicts, add conflicts it or the signals' evidence shows it missed, and report
+// every disagreement
+export function checkConflicts(conflicts: Conflict[], signals: Signal[] = []): { conflicts: Conflict[]; checks: ConflictCheck[] } {
+  const checks: ConflictCheck[] = [];
+  const record = (conflict_id: string, kind: ConflictCheck['kind'], detail: string) => {
+    checks.push({ conflict_id, kind, detail });
+    console.warn(`[conflicts] ${conflict_id}: ${kind} - ${detail}`);
+  };
+
+  const corrected = conflicts.map(conflict => {
+    const money = MONEY_TYPES.includes(conflict.type);
+    if (!money && !QUANTITY_TYPES.includes(conflict.type)) return conflict;
+
+    const claims = conflict.claims || [];
+    const modelFlags = conflict.flags || [];
+    const derived = deriveFlags(claims, money);
+
+    for (const flag of DERIVED_FLAGS) {
+      if (derived.includes(flag) && !modelFlags.includes(flag)) record(conflict.id, 'flag_added', `${flag} set from claim data`);
+      if (!derived.includes(flag) && modelFlags.includes(flag)) record(conflict.id, 'flag_removed', `${flag} not supported by claim data`);
+    }
+
+    const definitions = new Set(claims.map(cl => (cl.definition || 'unknown').toLowerCase()));
+    if (conflict.type === 'liquidity.cash_amount' && definitions.size >= 2) {
+      record(conflict.id, 'type_mismatch', `claims have different definitions (${[...definitions].join(', ')}); expected liquidity.cash_definition`);
+    }
+
+    const flags = [...modelFlags.filter(f => !DERIVED_FLAGS.includes(f)), ...derived];
+    return { ...conflict, flags: flags.length ? flags : undefined };
+  });
+
+  const missed = detect(conflicts, signals).filter(found => !corrected.some(c => covers(c, found)));
+  missed.forEach((conflict, i) => {
+    conflict.id = `C_auto${i + 1}`;
+    record(conflict.id, 'missed', `${conflict.type}: ${conflict.claims.map(cl => `${cl.source} ${cl.value}`).join(' vs ')}`);
+  });
+
+  return { conflicts: [...corrected, ...missed], checks };
+}
@@ -0,0 +1,312 @@
+// covenant.ts - Executes the cash next-check templates: reconciliation, restricted classification, covenant headroom
+
+import { readFileSync, existsSync, writeFileSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import { NextCheck, NextCheckTemplate, ConflictClaim } from './types';
+import { parseQuantities } from './numbers';
+import { FxTable, DEFAULT_REPORTING_CURRENCY, parseMoney, toReporting } from './money';
+import { RunEvidencePack, packRunsDir } from './runs';
+
+export const COVENANT_TEMPLATES: NextCheckTemplate[] = ['cash_reconciliation', 'restricted_classification', 'covenant_threshold_check'];
+
+// What the user supplied, by snake_case key: "restricted counts: no" -> { restricted_counts: 'no' }.
+// Any slot name (threshold, bank_ledger, ...) overrides the value the model extracted.
+export type CheckAnswers = Record<string, string>;
+
+type Figure = 'internal_figure' | 'bank_ledger' | 'bank_available';
+
+export interface ReconciliationRow {
+  figure: Figure;
+  amount: number;          // In the result currency
+  value_date?: string;
+  source?: string;         // Claim the value date was taken from
+  aligned: boolean;        // Dated on the alignment date
+}
+
+export interface CovenantMetric {
+  name: string;
+  restricted_counts: boolean;
+  value: number;
+  threshold: number;
+  headroom: number;        // value - threshold; negative is a breach
+  headroom_pct: number;
+  passes: boolean;
+}
+
+export interface CheckOutcome {
+  check_id?: string;
+  priority: number;
+  template: NextCheckTemplate;
+  status: 'computed' | 'incomplete';  // Whether the calculation finished; the check itself stays open for a reviewer
+  result?: string;
+  missing?: string[];      // Inputs still needed to finish the check
+}
+
+export interface CovenantResult {
+  computed_at: string;
+  currency: string;
+  answers: CheckAnswers;
+  aligned_date?: string;
+  reconciliation: ReconciliationRow[];
+  differences: { label: string; amount: number }[];
+  restricted_amount?: number;
+  metric?: CovenantMetric;          // Once restricted_counts is answered
+  scenarios?: CovenantMetric[];     // Both classifications, while it is not
+  checks: CheckOutcome[];
+}
+
+// Claim definitions that identify each reconciliation figure
+const FIGURE_DEFINITIONS: Record<Figure, string[]> = {
+  internal_figure: ['internal_reported', 'unknown'],
+  bank_ledger: ['ledger'],
+  bank_available: ['available', 'unrestricted'],
+};
+
+const FIGURE_LABELS: Record<Figure, string> = {
+  internal_figure: 'Internal figure',
+  bank_ledger: 'Bank ledger',
+  bank_available: 'Bank available',
+};
+
+const ISO_DATE = /\d{4}-\d{2}-\d{2}/g;
+const YES = /^(?:y|yes|true|1|counts?|included?)$/i;
+const NO = /^(?:n|no|false|0|excluded?|does not count)$/i;
+
+const cents = (n: number) => Math.round(n * 100) / 100;
+const fmt = (n: number) => n.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+const snake = (key: string) => key.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+// Accepts an object or "key: value" lines
+export function parseAnswers(input: unknown): CheckAnswers {
+  if (typeof input === 'string') {
+    return Object.fromEntries(input.split(/[\n;]+/)
+      .map(line => line.match(/^\s*([^:=]+?)\s*[:=]\s*(.+?)\s*$/))
+      .filter((m): m is RegExpMatchArray => !!m)
+      .map(m => [snake(m[1]), m[2]]));
+  }
+  if (typeof input === 'object' && input !== null) {
+    return Object.fromEntries(Object.entries(input).map(([k, v]) => [snake(k), String(v)]));
+  }
+  return {};
+}
+
+function yesNo(answer: string | undefined): boolean | undefined {
+  if (!answer) return undefined;
+  if (YES.test(answer.trim())) return true;
+  if (NO.test(answer.trim())) return false;
+  return undefined;
+}
+
+// Amounts in a slot, in `currency`. Dates are removed first so "2026-01-25" is not read as three numbers.
+function amountsOf(text: string | undefined, currency: string, fx: FxTable | undefined): number[] {
+  if (!text) return [];
+  const clean = text.replace(ISO_DATE, ' ');
+
+  return parseQuantities(clean)
+    .filter(q => q.unit !== 'percent' && q.unit !== 'hours')
+    .map(q => {
+      if (!q.unit || q.unit === currency) return q.amount;
+      const money = parseMoney(`${q.unit} ${q.amount}`);
+      return money && fx ? toReporting(money, fx, currency)?.amount : undefined;
+    })
+    .filter((a): a is number => a !== undefined);
+}
+
+// Value date of a figure: the user's answer, else the claim stating the same amount under a matching definition
+function dateOf(figure: Figure, amount: number, claims: ConflictClaim[], answers: CheckAnswers): { value_date?: string; source?: string } {
+  const answered = answers[`${figure}_date`];
+  if (answered) return { value_date: answered };
+
+  const claim = claims.find(cl => {
+    const money = cl.money;
+    if (!money || !cl.value_date || !FIGURE_DEFINITIONS[figure].includes(money.definition)) return false;
+    const value = money.reporting?.amount ?? money.amount;
+    return Math.abs(value - amount) <= Math.max(1, amount * 0.001);
+  });
+  return claim ? { value_date: claim.value_date, source: claim.source } : {};
+}
+
+function metricFor(name: string, unrestricted: number, restricted: number, threshold: number, counts: boolean): CovenantMetric {
+  const value = cents(counts ? unrestricted + restricted : unrestricted);
+  const headroom = cents(value - threshold);
+  return {
+    name,
+    restricted_counts: counts,
+    value,
+    threshold,
+    headroom,
+    headroom_pct: threshold ? Math.round((headroom / threshold) * 1000) / 10 : 0,
+    passes: headroom >= 0,
+  };
+}
+
+const describeMetric = (m: CovenantMetric, currency: string) =>
+  `${m.name} ${fmt(m.value)} ${currency} vs threshold ${fmt(m.threshold)}: ${m.passes ? 'PASS' : 'BREACH'}, ` +
+  `headroom ${fmt(m.headroom)} (${m.headroom_pct.toFixed(1)}%)`;
+
+// Compute the cash checks of a run from their slots plus the user's answers
+export function calculateCovenant(run: RunEvidencePack, answers: CheckAnswers, fx?: FxTable): CovenantResult {
+  const checks: NextCheck[] = (run.next_checks || []).filter((c: NextCheck) => COVENANT_TEMPLATES.includes(c.template));
+  const claims: ConflictClaim[] = (run.conflicts || []).flatMap((c: any) => c.claims || []);
+
+  // Slots from every cash check, the first check's value winning; answers override both
+  const slots: Record<string, string> = {};
+  for (const check of checks) {
+    for (const [k, v] of Object.entries(check.slots || {})) {
+      if (slots[k] === undefined) slots[k] = String(v);
+    }
+  }
+  Object.assign(slots, answers);
+
+  // Bare amounts are in the covenant's unit when it names a currency, else the run's reporting currency
+  const currency = /^[A-Z]{3}$/i.test(slots.unit || '') ? slots.unit.toUpperCase()
+    : run.run_meta.reporting_currency || DEFAULT_REPORTING_CURRENCY;
+
+  const rows: ReconciliationRow[] = [];
+  for (const figure of Object.keys(FIGURE_LABELS) as Figure[]) {
+    const [amount] = amountsOf(slots[figure], currency, fx);
+    if (amount === undefined) continue;
+    rows.push({ figure, amount, ...dateOf(figure, amount, claims, answers), aligned: false });
+  }
+
+  // Align on the user's date, else the latest bank date, else the latest date of any figure
+  const bankDates = rows.filter(r => r.figure !== 'internal_figure' && r.value_date).map(r => r.value_date!);
+  const anyDates = rows.filter(r => r.value_date).map(r => r.value_date!);
+  const alignedDate = answers.value_date || [...bankDates].sort().pop() || [...anyDates].sort().pop();
+  rows.forEach(r => { r.aligned = !!alignedDate && r.value_date === alignedDate; });
+
+  const get = (figure: Figure) => rows.find(r => r.figure === figure)?.amount;
+  const internal = get('internal_figure');
+  const ledger = get('bank_ledger');
+  const available = get('bank_available');
+
+  const restrictedItems = amountsOf(slots.restricted_items, currency, fx);
+  const restricted = amountsOf(slots.restricted_amount, currency, fx)[0]
+    ?? (restrictedItems.length ? restrictedItems.reduce((a, b) => a + b, 0) : undefined)
+    ?? (ledger !== undefined && available !== undefined ? ledger - available : undefined);
+
+  const differences: CovenantResult['differences'] = [];
+  if (internal !== undefined && ledger !== undefined) differences.push({ label: 'Internal vs bank ledger', amount: cents(internal - ledger) });
+  if (internal !== undefined && available !== undefined) differences.push({ label: 'Internal vs bank available', amount: cents(internal - available) });
+  if (ledger !== undefined && available !== undefined) {
+    differences.push({ label: 'Ledger vs available (holds)', amount: cents(ledger - available) });
+    if (restricted !== undefined) differences.push({ label: 'Holds not explained by restricted items', amount: cents(ledger - available - restricted) });
+  }
+
+  // Unrestricted cash from the bank where possible; the internal figure only as a last resort
+  const unrestricted = ledger !== undefined && restricted !== undefined ? cents(ledger - restricted)
+    : available ?? ledger ?? internal;
+  const threshold = amountsOf(slots.threshold, currency, fx)[0];
+  const counts = yesNo(answers.restricted_counts);
+  const name = slots.metric || slots.covenant_metric || 'unrestricted_cash';
+
+  let metric: CovenantMetric | undefined;
+  let scenarios: CovenantMetric[] | undefined;
+  if (unrestricted !== undefined && threshold !== undefined) {
+    if (counts !== undefined) metric = metricFor(name, unrestricted, restricted || 0, threshold, counts);
+    else if (restricted) scenarios = [true, false].map(c => metricFor(name, unrestricted, restricted, threshold, c));
+    else metric = metricFor(name, unrestricted, 0, threshold, false);
+  }
+
+  const misaligned = rows.filter(r => !r.aligned).map(r => FIGURE_LABELS[r.figure]);
+  const alignment = alignedDate
+    ? misaligned.length ? ` (${misaligned.join(', ')} not dated ${alignedDate}; difference includes timing)` : ` as of ${alignedDate}`
+    : ' (no value dates; not aligned)';
+
+  const outcomes: CheckOutcome[] = checks.map(check => {
+    const missing: string[] = [];
+    let result: string | undefined;
+
+    if (check.template === 'cash_reconciliation') {
+      if (internal === undefined) missing.push('internal_figure');
+      if (ledger === undefined && available === undefined) missing.push('bank_ledger');
+      if (missing.length === 0) {
+        const bank = ledger !== undefined ? `bank ledger ${fmt(ledger)}` : `bank available ${fmt(available!)}`;
+        result = `Internal ${fmt(internal!)} vs ${bank} ${currency}, difference ${fmt(internal! - (ledger ?? available!))}${alignment}` +
+          (restricted !== undefined ? `; restricted ${fmt(restricted)}` : '') +
+          (unrestricted !== undefined ? `; unrestricted ${fmt(unrestricted)}` : '');
+      }
+    } else if (check.template === 'restricted_classification') {
+      if (counts === undefined) missing.push('restricted_counts');
+      else result = `Restricted ${restricted !== undefined ? `${fmt(restricted)} ${currency} ` : ''}${counts ? 'counts' : 'does not count'} toward ${name} (user answer)`;
+    } else {
+      if (threshold === undefined) missing.push('threshold');
+      if (unrestricted === undefined) missing.push('bank_ledger');
+      if (!metric && scenarios) missing.push('restricted_counts');
+      if (metric) result = describeMetric(metric, currency);
+    }
+
+    return {
+      ...(check.id ? { check_id: check.id } : {}),
+      priority: check.priority,
+      template: check.template,
+      status: result ? 'computed' : 'incomplete',
+      ...(result ? { result } : {}),
+      ...(missing.length ? { missing } : {}),
+    };
+  });
+
+  console.log(`[covenant] ${outcomes.filter(o => o.status === 'computed').length}/${outcomes.length} cash checks computed` +
+    (metric ? ` - ${describeMetric(metric, currency)}` : ''));
+
+  return {
+    computed_at: new Date().toISOString(),
+    currency,
+    answers,
+    ...(alignedDate ? { aligned_date: alignedDate } : {}),
+    reconciliation: rows,
+    differences,
+    ...(restricted !== undefined ? { restricted_amount: restricted } : {}),
+    ...(metric ? { metric } : {}),
+    ...(scenarios ? { scenarios } : {}),
+    checks: outcomes,
+  };
+}
+
+// The run with the result attached and each computed value shown on its cash check. The check's status is left
+// alone: a calculation is not a reviewer's answer, so closing the check is up to a human (see checks.ts).
+export function applyCovenantResult(run: RunEvidencePack, result: CovenantResult): RunEvidencePack {
+  return {
+    ...run,
+    covenant: result,
+    next_checks: (run.next_checks || []).map((check: NextCheck) => {
+      const outcome = result.checks.find(o =>
+        o.check_id ? o.check_id === check.id : o.template === check.template && o.priority === check.priority
+      );
+      if (!outcome) return check;
+      const { result: text, ...rest } = check;
+      return { ...rest, ...(outcome.result ? { result: outcome.result } : {}) };
+    }),
+  };
+}
+
+// runs/<pack id>/covenant/: <run id>.json with the latest result of each run, kept beside the run rather than in it
+function covenantDir(packId: string): string {
+  return join(packRunsDir(packId), 'covenant');
+}
+
+function resultPath(run: RunEvidencePack): string {
+  return join(covenantDir(run.run_meta.pack_id), `${run.run_meta.run_id}.json`);
+}
+
+export function saveCovenantResult(run: RunEvidencePack, result: CovenantResult): void {
+  mkdirSync(covenantDir(run.run_meta.pack_id), { recursive: true });
+  writeFileSync(resultPath(run), JSON.stringify(result, null, 2));
+}
+
+export function loadCovenantResult(run: RunEvidencePack): CovenantResult | undefined {
+  const path = resultPath(run);
+  if (!existsSync(path)) return undefined;
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (e) {
+    console.warn(`[covenant] Unreadable result for ${run.run_meta.run_id}:`, e instanceof Error ? e.message : e);
+    return undefined;
+  }
+}
+
+// The run with its stored result applied, if it has one
+export function withCovenant(run: RunEvidencePack): RunEvidencePack {
+  const result = loadCovenantResult(run);
+  return result ? applyCovenantResult(run, result) : run;
+}
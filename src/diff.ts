@@ -0,0 +1,206 @@
+// diff.ts - What changed between two runs of the same pack
+
+import { Signal, Conflict, Drop, NextCheck, Severity } from './types';
+import { similarity } from './grounding';
+import { RunEvidencePack } from './runs';
+
+export interface SeverityChange {
+  before: Signal;
+  after: Signal;
+}
+
+export interface RunDiff {
+  pack_id: string;
+  run_a: RunEvidencePack['run_meta'];
+  run_b: RunEvidencePack['run_meta'];
+  signals: {
+    added: Signal[];
+    removed: Signal[];
+    escalated: SeverityChange[];
+    de_escalated: SeverityChange[];
+    unchanged: number;
+  };
+  conflicts: {
+    added: Conflict[];
+    resolved: Conflict[];     // In run A, gone from run B
+    persisting: number;
+  };
+  drops: {
+    added: Drop[];
+    removed: Drop[];
+  };
+  next_checks: {
+    added: NextCheck[];
+    removed: NextCheck[];
+  };
+}
+
+// Pairs scoring below this are treated as different findings
+const MIN_MATCH_SCORE = 0.5;
+
+const SEVERITY_RANK: Record<Severity, number> = { critical: 0, high: 1, medium: 2, low: 3 };
+
+function slotText(slots: NextCheck['slots']): string {
+  return Object.entries(slots || {}).map(([k, v]) => `${k} ${v}`).join(' ');
+}
+
+// Scores are 0..1; -1 means the pair can never match (different type/template)
+function scoreSignals(a: Signal, b: Signal): number {
+  if (a.type !== b.type) return -1;
+  const quotes = similarity(a.evidence.map(ev => ev.quote).join(' '), b.evidence.map(ev => ev.quote).join(' '));
+  return 0.6 * quotes + 0.2 * similarity(a.summary, b.summary) + (a.owner === b.owner ? 0.2 : 0);
+}
+
+function scoreConflicts(a: Conflict, b: Conflict): number {
+  if (a.type !== b.type) return -1;
+  const claims = (c: Conflict) => c.claims.map(cl => `${cl.source} ${cl.quote || ''}`).join(' ');
+  return 0.6 * similarity(claims(a), claims(b)) + 0.4 * similarity(a.topic, b.topic);
+}
+
+function scoreDrops(a: Drop, b: Drop): number {
+  if (a.reason !== b.reason) return -1;
+  return similarity(a.what, b.what);
+}
+
+function scoreNextChecks(a: NextCheck, b: NextCheck): number {
+  if (a.template !== b.template) return -1;
+  return 0.5 * similarity(slotText(a.slots), slotText(b.slots)) + 0.3 * similarity(a.question, b.question) + (a.owner === b.owner ? 0.2 : 0);
+}
+
+// Greedy one-to-one matching, best-scoring pairs first
+function matchItems<T>(a: T[], b: T[], score: (x: T, y: T) => number): { pairs: [T, T][]; onlyA: T[]; onlyB: T[] } {
+  const candidates: { i: number; j: number; score: number }[] = [];
+  a.forEach((x, i) => b.forEach((y, j) => {
+    const s = score(x, y);
+    if (s >= MIN_MATCH_SCORE) candidates.push({ i, j, score: s });
+  }));
+  candidates.sort((x, y) => y.score - x.score);
+
+  const usedA = new Set<number>();
+  const usedB = new Set<number>();
+  const pairs: [T, T][] = [];
+  for (const c of candidates) {
+    if (usedA.has(c.i) || usedB.has(c.j)) continue;
+    usedA.add(c.i);
+    usedB.add(c.j);
+    pairs.push([a[c.i], b[c.j]]);
+  }
+
+  return {
+    pairs,
+    onlyA: a.filter((_, i) => !usedA.has(i)),
+    onlyB: b.filter((_, j) => !usedB.has(j)),
+  };
+}
+
+// Pairs of the same check in two lists (e.g. a stored check state and this run's checks)
+export function matchNextChecks(a: NextCheck[], b: NextCheck[]): [NextCheck, NextCheck][] {
+  return matchItems(a, b, scoreNextChecks).pairs;
+}
+
+// Run A is the baseline, run B the newer run
+export function diffRuns(runA: RunEvidencePack, runB: RunEvidencePack): RunDiff {
+  const signals = matchItems<Signal>(runA.signals, runB.signals, scoreSignals);
+  const conflicts = matchItems<Conflict>(runA.conflicts, runB.conflicts, scoreConflicts);
+  const drops = matchItems<Drop>(runA.drops, runB.drops, scoreDrops);
+  const checks = matchItems<NextCheck>(runA.next_checks, runB.next_checks, scoreNextChecks);
+
+  const changed = signals.pairs.filter(([before, after]) => before.severity !== after.severity);
+
+  return {
+    pack_id: runB.run_meta.pack_id,
+    run_a: runA.run_meta,
+    run_b: runB.run_meta,
+    signals: {
+      added: signals.onlyB,
+      removed: signals.onlyA,
+      escalated: changed
+        .filter(([before, after]) => SEVERITY_RANK[after.severity] < SEVERITY_RANK[before.severity])
+        .map(([before, after]) => ({ before, after })),
+      de_escalated: changed
+        .filter(([before, after]) => SEVERITY_RANK[after.severity] > SEVERITY_RANK[before.severity])
+        .map(([before, after]) => ({ before, after })),
+      unchanged: signals.pairs.length - changed.length,
+    },
+    conflicts: {
+      added: conflicts.onlyB,
+      resolved: conflicts.onlyA,
+      persisting: conflicts.pairs.length,
+    },
+    drops: { added: drops.onlyB, removed: drops.onlyA },
+    next_checks: { added: checks.onlyB, removed: checks.onlyA },
+  };
+}
+
+export function generateDiffMarkdown(diff: RunDiff): string {
+  const s = diff.signals;
+
+  let md = `# Run Diff: ${diff.pack_id}\n\n`;
+  md += `**Baseline:** ${diff.run_a.run_id} (${diff.run_a.created_at}, ${diff.run_a.model})\n`;
+  md += `**Compared:** ${diff.run_b.run_id} (${diff.run_b.created_at}, ${diff.run_b.model})\n\n`;
+
+  md += `## Summary\n\n`;
+  md += `| Change | Count |\n|--------|-------|\n`;
+  md += `| New Signals | ${s.added.length} |\n`;
+  md += `| Removed Signals | ${s.removed.length} |\n`;
+  md += `| Escalated | ${s.escalated.length} |\n`;
+  md += `| De-escalated | ${s.de_escalated.length} |\n`;
+  md += `| Unchanged Signals | ${s.unchanged} |\n`;
+  md += `| New Conflicts | ${diff.conflicts.added.length} |\n`;
+  md += `| Resolved Conflicts | ${diff.conflicts.resolved.length} |\n`;
+  md += `| New Drops | ${diff.drops.added.length} |\n`;
+  md += `| New Next Checks | ${diff.next_checks.added.length} |\n\n`;
+
+  const signalList = (title: string, list: Signal[]) => {
+    if (list.length === 0) return;
+    md += `## ${title}\n\n`;
+    for (const sig of list) {
+      md += `- **${sig.id}** ${sig.type} (${sig.severity}, ${sig.owner}): ${sig.summary}\n`;
+    }
+    md += `\n`;
+  };
+
+  const changeList = (title: string, list: SeverityChange[]) => {
+    if (list.length === 0) return;
+    md += `## ${title}\n\n`;
+    for (const { before, after } of list) {
+      md += `- **${after.id}** ${after.type}: ${before.severity} → ${after.severity}\n`;
+      md += `  - ${after.summary}\n`;
+      if (after.severity_reason) md += `  - *Severity reason:* ${after.severity_reason}\n`;
+    }
+    md += `\n`;
+  };
+
+  signalList('New Signals', s.added);
+  changeList('Escalated', s.escalated);
+  changeList('De-escalated', s.de_escalated);
+  signalList('Removed Signals', s.removed);
+
+  const conflictList = (title: string, list: Conflict[]) => {
+    if (list.length === 0) return;
+    md += `## ${title}\n\n`;
+    for (const conf of list) {
+      md += `- **${conf.id}** ${conf.type || conf.topic}: ${conf.claims.map(cl => `${cl.source} ${cl.value}`).join(' vs ')}\n`;
+    }
+    md += `\n`;
+  };
+
+  conflictList('New Conflicts', diff.conflicts.added);
+  conflictList('Resolved Conflicts', diff.conflicts.resolved);
+
+  if (diff.drops.added.length || diff.drops.removed.length) {
+    md += `## Drops\n\n`;
+    for (const drop of diff.drops.added) md += `- New **${drop.id}** (${drop.reason}): ${drop.what}\n`;
+    for (const drop of diff.drops.removed) md += `- Gone **${drop.id}** (${drop.reason}): ${drop.what}\n`;
+    md += `\n`;
+  }
+
+  if (diff.next_checks.added.length || diff.next_checks.removed.length) {
+    md += `## Next Checks\n\n`;
+    for (const check of diff.next_checks.added) md += `- New ${check.template} (${check.owner}): ${check.question}\n`;
+    for (const check of diff.next_checks.removed) md += `- Gone ${check.template} (${check.owner}): ${check.question}\n`;
+    md += `\n`;
+  }
+
+  return md;
+}
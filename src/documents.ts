@@ -0,0 +1,146 @@
+// documents.ts - Pack documents page by page for the evidence viewer, and where a quote sits on a page
+
+import { readFileSync, existsSync } from 'fs';
+import { join, extname } from 'path';
+import { PackConfig, PackError, PROJECT_ROOT } from './packs';
+import { InputType, detectInputType } from './ingest';
+import { tokenize, resolveSource, MIN_MATCH_SCORE } from './grounding';
+
+export interface PackDocument {
+  doc_id: string;
+  filename: string;
+  type: InputType;
+  data: Buffer;
+}
+
+// Normalized [x, y, width, height] from the top-left corner, like EvidenceSpan.bbox
+export type Box = [number, number, number, number];
+
+export interface QuoteLocation {
+  doc_id: string;
+  page: number;
+  score: number;       // Share of quote tokens found; boxes are only returned at MIN_MATCH_SCORE or above
+  boxes: Box[];        // One per text run the quote spans
+}
+
+const IMAGE_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+};
+
+// A document of the pack by doc_id, or by the `source` name an evidence span or claim uses
+export function loadPackDocument(pack: PackConfig, ref: string): PackDocument {
+  const file = resolveSource(ref, pack.files.map(f => ({ ...f, pages: [] })));
+  if (!file) throw new PackError(`Unknown document "${ref}" in pack ${pack.id}`);
+
+  const path = join(PROJECT_ROOT, file.filename);
+  if (!existsSync(path)) throw new PackError(`Unknown document "${ref}": ${file.filename} is missing`);
+
+  const data = readFileSync(path);
+  const type = detectInputType(file.filename, data);
+  if (!type) throw new PackError(`${file.filename} is not a supported document`);
+  return { doc_id: file.doc_id, filename: file.filename, type, data };
+}
+
+// One page as something a browser can display: a single-page PDF, or the image itself
+export async function pageContent(doc: PackDocument, page: number): Promise<{ contentType: string; data: Buffer }> {
+  if (doc.type === 'image') {
+    if (page !== 1) throw new PackError(`${doc.doc_id} is an image and only has page 1`);
+    return { contentType: IMAGE_TYPES[extname(doc.filename).toLowerCase()], data: doc.data };
+  }
+  if (doc.type !== 'pdf') {
+    throw new PackError(`${doc.doc_id} is a ${doc.type} document and has no pages to view`);
+  }
+
+  const { PDFDocument } = await import('pdf-lib');
+  const source = await PDFDocument.load(doc.data, { ignoreEncryption: true });
+  const count = source.getPageCount();
+  if (!Number.isInteger(page) || page < 1 || page > count) throw new PackError(`Page ${page} is out of range for ${doc.doc_id} (1-${count})`);
+
+  const single = await PDFDocument.create();
+  const [copied] = await single.copyPages(source, [page - 1]);
+  single.addPage(copied);
+  return { contentType: 'application/pdf', data: Buffer.from(await single.save()) };
+}
+
+interface TextRun {
+  tokens: string[];
+  box: Box;
+}
+
+// Text runs of a PDF page with their boxes, from the page's text layer
+async function textRuns(data: Buffer, page: number): Promise<TextRun[]> {
+  // Loaded lazily - pdfjs prints canvas warnings on require
+  const pdfjs = await import('pdfjs-dist/legacy/build/pdf');
+  const doc = await pdfjs.getDocument({ data: new Uint8Array(data), verbosity: 0 }).promise;
+
+  try {
+    if (!Number.isInteger(page) || page < 1 || page > doc.numPages) throw new PackError(`Page ${page} is out of range (1-${doc.numPages})`);
+    const pdfPage = await doc.getPage(page);
+    const viewport = pdfPage.getViewport({ scale: 1 });
+    const content = await pdfPage.getTextContent();
+
+    return content.items.flatMap((item: any) => {
+      const tokens = tokenize(item.str || '');
+      if (tokens.length === 0) return [];
+      // Baseline origin in viewport space (top-left, y down); the font height is the glyph scale
+      const [, , c, d, x, y] = pdfjs.Util.transform(viewport.transform, item.transform);
+      const height = Math.hypot(c, d);
+      const box: Box = [x / viewport.width, (y - height) / viewport.height, item.width / viewport.width, height / viewport.height];
+      return [{ tokens, box: box.map(v => Math.round(v * 10000) / 10000) as Box }];
+    });
+  } finally {
+    await doc.destroy();
+  }
+}
+
+// The shortest stretch of consecutive runs holding the most quote tokens
+function bestStretch(runs: TextRun[], quoteTokens: string[]): { score: number; runs: TextRun[] } {
+  const needed = new Map<string, number>();
+  for (const t of quoteTokens) needed.set(t, (needed.get(t) || 0) + 1);
+  const maxTokens = Math.ceil(quoteTokens.length * 1.5) + 2;
+
+  let best = { score: 0, runs: [] as TextRun[] };
+  for (let start = 0; start < runs.length; start++) {
+    if (!runs[start].tokens.some(t => needed.has(t))) continue;
+
+    const seen = new Map<string, number>();
+    let matched = 0;
+    let length = 0;
+    for (let end = start; end < runs.length && length < maxTokens; end++) {
+      for (const t of runs[end].tokens) {
+        const n = (seen.get(t) || 0) + 1;
+        seen.set(t, n);
+        if (n <= (needed.get(t) || 0)) matched++;
+      }
+      length += runs[end].tokens.length;
+
+      const score = matched / quoteTokens.length;
+      if (score > best.score || (score === best.score && end - start + 1 < best.runs.length)) {
+        best = { score, runs: runs.slice(start, end + 1) };
+      }
+      if (score === 1) break;
+    }
+  }
+  return best;
+}
+
+// Where on a PDF page a quote is, as boxes the viewer can highlight
+export async function locateQuote(doc: PackDocument, page: number, quote: string): Promise<QuoteLocation> {
+  if (doc.type !== 'pdf') throw new PackError(`${doc.doc_id} is a ${doc.type} document; quotes can only be located in PDFs`);
+
+  const quoteTokens = tokenize(quote);
+  const runs = quoteTokens.length ? await textRuns(doc.data, page) : [];
+  const { score, runs: matched } = bestStretch(runs, quoteTokens);
+  const quoteSet = new Set(quoteTokens);
+
+  return {
+    doc_id: doc.doc_id,
+    page,
+    score: Math.round(score * 100) / 100,
+    // Runs at the edges of the stretch may only carry a word or two of the quote; runs without any are left out
+    boxes: score >= MIN_MATCH_SCORE ? matched.filter(r => r.tokens.some(t => quoteSet.has(t))).map(r => r.box) : [],
+  };
+}
@@ -0,0 +1,142 @@
+// eval.ts - Evaluation CLI: compile every pack that has golden expectations, score the runs and store the result
+//
+//   npm run eval -- [--provider replay] [--model <id>] [--pack <id>]... [--force]
+
+import { PACKS, PackConfig, loadPacks } from './packs';
+import { ModelProvider, createProvider } from './providers';
+import { RunEvidencePack, getRun } from './runs';
+import { DEFAULT_PROFILE, loadProfile } from './profiles';
+import { PROMPT_VERSION } from './prompt';
+import { CONFIG_HASH, compileSignals } from './compile';
+import { EvalResult, Golden, loadGolden, scoreRun, evalTotals, saveEval } from './golden';
+
+interface EvalOptions {
+  provider?: string;
+  model?: string;
+  packs: string[];     // Empty = every pack in packs.json
+  force: boolean;      // Recompile even when a cached run has the same key
+}
+
+const USAGE = 'Usage: npm run eval -- [--provider <id>] [--model <id>] [--pack <id>]... [--force]';
+
+function parseArgs(args: string[]): EvalOptions {
+  const options: EvalOptions = { packs: [], force: false };
+  for (let i = 0; i < args.length; i++) {
+    const value = () => {
+      if (i + 1 >= args.length) throw new Error(`${args[i]} needs a value\n${USAGE}`);
+      return args[++i];
+    };
+    switch (args[i]) {
+      case '--provider': options.provider = value(); break;
+      case '--model': options.model = value(); break;
+      case '--pack': options.packs.push(value()); break;
+      case '--force': options.force = true; break;
+      default: throw new Error(`Unknown argument "${args[i]}"\n${USAGE}`);
+    }
+  }
+  return options;
+}
+
+const pct = (v: number | null) => (v === null ? '-' : `${Math.round(v * 100)}%`);
+
+function printReport(result: EvalResult): void {
+  console.log(`\nEvaluation ${result.eval_id} - prompt ${result.prompt_version} (${result.config_hash}), ${result.provider}:${result.model}\n`);
+  console.log(`${'Pack'.padEnd(28)} ${'Precision'.padStart(9)} ${'Recall'.padStart(7)} ${'Severity'.padStart(9)} ${'Grounded'.padStart(9)}`);
+
+  for (const p of result.packs) {
+    console.log(`${p.pack_id.padEnd(28)} ${pct(p.precision).padStart(9)} ${pct(p.recall).padStart(7)} ${pct(p.severity_accuracy).padStart(9)} ${pct(p.grounding_rate).padStart(9)}`);
+    for (const missed of p.missed) console.log(`    missed: ${missed}`);
+    for (const error of p.severity_errors) console.log(`    severity: ${error}`);
+    for (const unexpected of p.unexpected) console.log(`    unexpected: ${unexpected}`);
+  }
+
+  const t = result.totals;
+  console.log(`${'TOTAL'.padEnd(28)} ${pct(t.precision).padStart(9)} ${pct(t.recall).padStart(7)} ${pct(t.severity_accuracy).padStart(9)} ${pct(t.grounding_rate).padStart(9)}`);
+  for (const f of result.failed) console.log(`FAILED ${f.pack_id}: ${f.error}`);
+  if (result.skipped.length) console.log(`Skipped (no golden file): ${result.skipped.join(', ')}`);
+}
+
+async function compiledRun(pack: PackConfig, provider: ModelProvider, force: boolean): Promise<RunEvidencePack> {
+  const compiled = await compileSignals(pack, provider, {}, force);
+  // A fallback is an older run, possibly from another prompt; scoring it would be misleading
+  if (compiled.cache?.status === 'fallback') throw new Error('Live compile failed and only an older run is available');
+  const run = compiled.run_id ? getRun(compiled.run_id) : undefined;
+  if (!run) throw new Error(`Run ${compiled.run_id} is not stored`);
+  return run;
+}
+
+// The first run_meta field that differs from what the evaluation reports, if any
+function staleFor(run: RunEvidencePack, result: EvalResult, pack: PackConfig): string | undefined {
+  const meta = run.run_meta;
+  if (meta.prompt_version !== result.prompt_version) return 'prompt_version';
+  if (meta.config_hash !== result.config_hash) return 'config_hash';
+  if (meta.provider !== result.provider) return 'provider';
+  if (meta.model !== result.model) return 'model';
+  if (meta.profile_version !== loadProfile(pack.profile || DEFAULT_PROFILE)?.version) return 'profile_version';
+  return undefined;
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  loadPacks();
+  const provider = createProvider({ provider: options.provider, model: options.model });
+  const createdAt = new Date().toISOString();
+
+  const result: EvalResult = {
+    eval_id: `eval_${createdAt.replace(/[:.]/g, '')}`,
+    created_at: createdAt,
+    prompt_version: PROMPT_VERSION,
+    config_hash: CONFIG_HASH,
+    provider: provider.name,
+    model: provider.model,
+    packs: [],
+    failed: [],
+    skipped: [],
+    totals: { precision: null, recall: null, severity_accuracy: null, grounding_rate: null },
+  };
+
+  for (const packId of options.packs.length ? options.packs : Object.keys(PACKS)) {
+    const pack = PACKS[packId];
+    if (!pack) {
+      result.failed.push({ pack_id: packId, error: 'Unknown pack' });
+      continue;
+    }
+    let golden: Golden | undefined;
+    try {
+      golden = loadGolden(packId);
+    } catch (error) {
+      result.failed.push({ pack_id: packId, error: error instanceof Error ? error.message : String(error) });
+      continue;
+    }
+    if (!golden) {
+      result.skipped.push(packId);
+      continue;
+    }
+
+    console.log(`[eval] Compiling ${packId}...`);
+    try {
+      let run = await compiledRun(pack, provider, options.force);
+      // The result is labeled with the current prompt and provider, so a cached run from others is not scored
+      const mismatch = staleFor(run, result, pack);
+      if (mismatch) {
+        console.log(`[eval] Cached run ${run.run_meta.run_id} has a different ${mismatch} - recompiling`);
+        run = await compiledRun(pack, provider, true);
+      }
+      result.packs.push(scoreRun(run, golden));
+    } catch (error) {
+      result.failed.push({ pack_id: packId, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  result.totals = evalTotals(result.packs);
+  const path = saveEval(result);
+  printReport(result);
+  console.log(`\nSaved to ${path}`);
+
+  if (result.failed.length) process.exitCode = 1;
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
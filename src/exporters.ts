@@ -0,0 +1,134 @@
+// exporters.ts - Export formats behind GET /export/:packId/:format: JSON, Markdown, HTML brief, CSV tables, SARIF
+
+import { RunEvidencePack } from './runs';
+import { formatLocator } from './grounding';
+import { loadProfile } from './profiles';
+import { generateMarkdown } from './report';
+import { generateBrief } from './brief';
+import { toSarif } from './sarif';
+
+export interface ExportOptions {
+  table?: string;        // CSV only: which table (see CSV_TABLES)
+}
+
+export interface Exporter {
+  description: string;
+  extension: string;     // File name extension, with the dot
+  contentType: string;
+  inline?: boolean;      // Shown in the browser rather than downloaded (the printable brief)
+  render(run: RunEvidencePack, options: ExportOptions): string;
+  suffix?(options: ExportOptions): string;   // Added to the file name before the extension
+}
+
+// Invalid export options that should surface as 400s
+export class ExportError extends Error {}
+
+// Excel only reads a CSV as UTF-8 when it starts with a byte order mark
+const BOM = '\uFEFF';
+
+// Cells that start like a formula are prefixed with ' so a spreadsheet shows them as text; quotes from
+// documents are untrusted input
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  let text = Array.isArray(value) ? value.join('; ') : String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csv(header: string[], rows: unknown[][]): string {
+  return BOM + [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+}
+
+const evidenceText = (evidence: any[] = []) =>
+  evidence.map(e => `${e.source} ${formatLocator(e)}: "${e.quote}"`).join(' | ');
+
+const CSV_TABLES: Record<string, (run: RunEvidencePack) => string> = {
+  signals: run => csv(
+    ['id', 'type', 'severity', 'owner', 'summary', 'value', 'amount', 'currency', 'definition', 'value_date',
+      'reporting_amount', 'reporting_currency', 'blocker_for', 'recommended_check', 'evidence', 'grounding', 'review_status'],
+    run.signals.map(s => [
+      s.id, s.type, s.severity, s.owner, s.summary, s.value, s.money?.amount, s.money?.currency, s.money?.definition,
+      s.money?.value_date, s.money?.reporting?.amount, s.money?.reporting?.currency, s.blocker_for, s.recommended_check,
+      evidenceText(s.evidence), (s.evidence || []).map((e: any) => e.grounding?.status || 'unchecked'), s.review?.status,
+    ])
+  ),
+
+  // One row per claim, so the competing figures of a conflict sit on consecutive rows
+  claims: run => csv(
+    ['conflict_id', 'conflict_type', 'topic', 'flags', 'source', 'locator', 'value', 'amount', 'currency', 'definition',
+      'value_date', 'reporting_amount', 'reporting_currency', 'quote', 'grounding', 'review_status'],
+    run.conflicts.flatMap(c => (c.claims || []).map((cl: any) => [
+      c.id, c.type, c.topic, c.flags, cl.source, formatLocator(cl), cl.value, cl.money?.amount, cl.money?.currency,
+      cl.definition || cl.money?.definition, cl.value_date || cl.money?.value_date, cl.money?.reporting?.amount,
+      cl.money?.reporting?.currency, cl.quote, cl.grounding?.status, c.review?.status,
+    ]))
+  ),
+
+  next_checks: run => csv(
+    ['priority', 'model_priority', 'id', 'template', 'owner', 'question', 'done_when', 'status', 'assignee', 'answer',
+      'result', 'missing_slots', 'review_status'],
+    run.next_checks.map(n => [
+      n.priority, n.model_priority, n.id, n.template, n.owner, n.question, n.done_when, n.status, n.assignee, n.answer,
+      n.result, n.missing_slots, n.review?.status,
+    ])
+  ),
+};
+
+function csvTable(options: ExportOptions): string {
+  const table = options.table || 'signals';
+  if (!Object.prototype.hasOwnProperty.call(CSV_TABLES, table)) throw new ExportError(`Unknown CSV table "${table}" (${Object.keys(CSV_TABLES).join(', ')})`);
+  return table;
+}
+
+const EXPORTERS: Record<string, Exporter> = {
+  json: {
+    description: 'The run evidence pack',
+    extension: '.json',
+    contentType: 'application/json',
+    render: run => JSON.stringify(run, null, 2),
+  },
+  md: {
+    description: 'Markdown run report',
+    extension: '.md',
+    contentType: 'text/markdown',
+    render: run => generateMarkdown(run),
+  },
+  html: {
+    description: 'Self-contained, printable board brief',
+    extension: '.html',
+    contentType: 'text/html; charset=utf-8',
+    inline: true,
+    render: run => generateBrief(run),
+  },
+  csv: {
+    description: `One table for spreadsheets: ?table=${Object.keys(CSV_TABLES).join('|')} (default signals)`,
+    extension: '.csv',
+    contentType: 'text/csv; charset=utf-8',
+    render: (run, options) => CSV_TABLES[csvTable(options)](run),
+    suffix: options => `_${csvTable(options)}`,
+  },
+  sarif: {
+    description: 'SARIF 2.1.0-style findings with evidence locations, for risk tooling',
+    extension: '.sarif.json',
+    contentType: 'application/sarif+json',
+    render: run => JSON.stringify(toSarif(run, run.run_meta.profile ? loadProfile(run.run_meta.profile) : undefined), null, 2),
+  },
+};
+
+// Add another format under a format ID; it is served at GET /export/:packId/<format>
+export function registerExporter(format: string, exporter: Exporter): void {
+  EXPORTERS[format] = exporter;
+}
+
+export function getExporter(format: string): Exporter | undefined {
+  return Object.prototype.hasOwnProperty.call(EXPORTERS, format) ? EXPORTERS[format] : undefined;
+}
+
+export function availableExporters(): { format: string; description: string; extension: string; content_type: string }[] {
+  return Object.entries(EXPORTERS).map(([format, e]) => ({
+    format,
+    description: e.description,
+    extension: e.extension,
+    content_type: e.contentType,
+  }));
+}
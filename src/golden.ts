@@ -0,0 +1,284 @@
+// golden.ts - Hand-labeled expectations per pack (golden/<pack id>.json), run scoring and the evaluation history
+
+import { readFileSync, existsSync, writeFileSync, mkdirSync, appendFileSync } from 'fs';
+import { join } from 'path';
+import { Signal, Conflict, Drop, Severity, DropReason, ConflictFlag, EvidenceSpan, ConflictClaim } from './types';
+import { PROJECT_ROOT } from './packs';
+import { RunEvidencePack } from './runs';
+
+const GOLDEN_DIR = join(PROJECT_ROOT, 'golden');
+const EVALS_DIR = join(PROJECT_ROOT, 'evals');
+const HISTORY_PATH = join(EVALS_DIR, 'history.jsonl');
+
+// One finding a correct run must contain. Optional ones are not required, but are not counted as false positives either.
+export interface Expectation {
+  type?: string | string[];     // Signal or conflict type; any of a list
+  reason?: DropReason;          // Drops only
+  severity?: Severity;          // Signals only, scored as severity accuracy
+  flags?: ConflictFlag[];       // Conflicts only; all must be set
+  match?: string;               // Case-insensitive regex over the finding's text (summary/topic/what, quotes, values)
+  optional?: boolean;
+}
+
+export interface Golden {
+  pack_id: string;
+  version: string;              // Bump when the labels change, so scores are only compared under the same labels
+  description?: string;
+  signals: Expectation[];
+  conflicts: Expectation[];
+  drops: Expectation[];
+}
+
+export interface KindScore {
+  expected: number;             // Required expectations
+  found: number;                // Required expectations the run satisfies
+  outputs: number;              // Findings in the run
+  correct: number;              // Findings that satisfy an expectation, required or optional
+  precision: number | null;
+  recall: number | null;
+}
+
+export interface PackScore {
+  pack_id: string;
+  run_id: string;
+  golden_version: string;
+  // What the scored run was compiled with, which may predate the evaluation's own labels
+  provider?: string;
+  model: string;
+  prompt_version?: string;
+  config_hash: string;
+  profile?: string;
+  profile_version?: string;
+  signals: KindScore;
+  conflicts: KindScore;
+  drops: KindScore;
+  precision: number | null;     // Over signals, conflicts and drops together
+  recall: number | null;
+  severity_accuracy: number | null;   // Matched signals with the expected severity
+  grounding_rate: number | null;      // Checkable evidence spans found in their source
+  counts: { severity_checked: number; severity_correct: number; grounded: number; checkable_spans: number };
+  missed: string[];             // Required expectations no finding satisfies
+  unexpected: string[];         // Findings that satisfy no expectation
+  severity_errors: string[];
+}
+
+export interface EvalResult {
+  eval_id: string;
+  created_at: string;
+  prompt_version: string;
+  config_hash: string;
+  provider: string;
+  model: string;
+  packs: PackScore[];
+  failed: { pack_id: string; error: string }[];
+  skipped: string[];            // Packs without a golden file
+  totals: {
+    precision: number | null;
+    recall: number | null;
+    severity_accuracy: number | null;
+    grounding_rate: number | null;
+  };
+}
+
+// One line of evals/history.jsonl: what a chart across prompt revisions needs
+export interface EvalSummary {
+  eval_id: string;
+  created_at: string;
+  prompt_version: string;
+  config_hash: string;
+  provider: string;
+  model: string;
+  totals: EvalResult['totals'];
+  packs: Record<string, Pick<PackScore, 'precision' | 'recall' | 'severity_accuracy' | 'grounding_rate' | 'golden_version'>>;
+  failed: string[];
+}
+
+export function loadGolden(packId: string): Golden | undefined {
+  const path = join(GOLDEN_DIR, `${packId}.json`);
+  if (!existsSync(path)) return undefined;
+  let golden: Golden;
+  try {
+    golden = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (e) {
+    throw new Error(`Invalid golden file ${path}: ${(e as Error).message}`);
+  }
+  return { ...golden, signals: golden.signals || [], conflicts: golden.conflicts || [], drops: golden.drops || [] };
+}
+
+const ratio = (n: number, d: number): number | null => (d > 0 ? Math.round((n / d) * 1000) / 1000 : null);
+
+// A finding as the matcher sees it
+interface Finding {
+  label: string;
+  type?: string;
+  reason?: string;
+  severity?: Severity;
+  flags?: string[];
+  text: string;
+}
+
+function describe(kind: string, e: Expectation): string {
+  const type = Array.isArray(e.type) ? e.type.join('|') : e.type || e.reason;
+  return `${kind} ${type}${e.severity ? ` (${e.severity})` : ''}${e.flags?.length ? ` [${e.flags.join(', ')}]` : ''}${e.match ? ` /${e.match}/` : ''}`;
+}
+
+function satisfies(finding: Finding, e: Expectation): boolean {
+  if (e.type !== undefined && !(Array.isArray(e.type) ? e.type : [e.type]).includes(finding.type || '')) return false;
+  if (e.reason !== undefined && e.reason !== finding.reason) return false;
+  if (e.flags?.some(flag => !finding.flags?.includes(flag))) return false;
+  if (e.match && !new RegExp(e.match, 'i').test(finding.text)) return false;
+  return true;
+}
+
+// One-to-one: required expectations claim findings first, in file order, so an optional one cannot take a required one's match
+function matchKind(kind: string, expectations: Expectation[], findings: Finding[]) {
+  const used = new Set<Finding>();
+  const pairs: [Expectation, Finding][] = [];
+  const missed: string[] = [];
+
+  const ordered = [...expectations.filter(e => !e.optional), ...expectations.filter(e => e.optional)];
+  for (const e of ordered) {
+    const finding = findings.find(f => !used.has(f) && satisfies(f, e));
+    if (finding) {
+      used.add(finding);
+      pairs.push([e, finding]);
+    } else if (!e.optional) {
+      missed.push(describe(kind, e));
+    }
+  }
+
+  const required = expectations.filter(e => !e.optional).length;
+  const found = pairs.filter(([e]) => !e.optional).length;
+  const score: KindScore = {
+    expected: required,
+    found,
+    outputs: findings.length,
+    correct: used.size,
+    precision: ratio(used.size, findings.length),
+    recall: ratio(found, required),
+  };
+  const unexpected = findings.filter(f => !used.has(f)).map(f => f.label);
+  return { score, pairs, missed, unexpected };
+}
+
+// Compare a stored run against the pack's golden expectations
+export function scoreRun(run: RunEvidencePack, golden: Golden): PackScore {
+  const signals: Finding[] = run.signals.map((s: Signal) => ({
+    label: `${s.id} ${s.type}: ${s.summary}`,
+    type: s.type,
+    severity: s.severity,
+    text: [s.summary, s.value ?? '', ...s.evidence.map((ev: EvidenceSpan) => ev.quote)].join('\n'),
+  }));
+  const conflicts: Finding[] = run.conflicts.map((c: Conflict) => ({
+    label: `${c.id} ${c.type}: ${c.topic}`,
+    type: c.type,
+    flags: c.flags || [],
+    text: [c.topic, ...c.claims.flatMap((cl: ConflictClaim) => [cl.value, cl.quote])].join('\n'),
+  }));
+  const drops: Finding[] = run.drops.map((d: Drop) => ({
+    label: `${d.id} ${d.reason}: ${d.what}`,
+    reason: d.reason,
+    text: [d.what, d.detail].join('\n'),
+  }));
+
+  const s = matchKind('signal', golden.signals, signals);
+  const c = matchKind('conflict', golden.conflicts, conflicts);
+  const d = matchKind('drop', golden.drops, drops);
+
+  const rated = s.pairs.filter(([e]) => e.severity);
+  const severityErrors = rated
+    .filter(([e, f]) => e.severity !== f.severity)
+    .map(([e, f]) => `${f.label}: ${f.severity}, expected ${e.severity}`);
+
+  // Scans without a text layer cannot be checked, so they are left out of the rate
+  const g = run.grounding;
+  const checkable = g ? g.checked - g.no_text_layer : 0;
+
+  const kinds = [s.score, c.score, d.score];
+  const sum = (key: 'expected' | 'found' | 'outputs' | 'correct') => kinds.reduce((n, k) => n + k[key], 0);
+
+  return {
+    pack_id: run.run_meta.pack_id,
+    run_id: run.run_meta.run_id,
+    golden_version: golden.version,
+    provider: run.run_meta.provider,
+    model: run.run_meta.model,
+    prompt_version: run.run_meta.prompt_version,
+    config_hash: run.run_meta.config_hash,
+    profile: run.run_meta.profile,
+    profile_version: run.run_meta.profile_version,
+    signals: s.score,
+    conflicts: c.score,
+    drops: d.score,
+    precision: ratio(sum('correct'), sum('outputs')),
+    recall: ratio(sum('found'), sum('expected')),
+    severity_accuracy: ratio(rated.length - severityErrors.length, rated.length),
+    grounding_rate: g ? ratio(g.verified + g.relocated, checkable) : null,
+    counts: {
+      severity_checked: rated.length,
+      severity_correct: rated.length - severityErrors.length,
+      grounded: g ? g.verified + g.relocated : 0,
+      checkable_spans: checkable,
+    },
+    missed: [...s.missed, ...c.missed, ...d.missed],
+    unexpected: [...s.unexpected, ...c.unexpected, ...d.unexpected],
+    severity_errors: severityErrors,
+  };
+}
+
+// Micro-averaged over all scored packs
+export function evalTotals(scores: PackScore[]): EvalResult['totals'] {
+  const kinds = scores.flatMap(p => [p.signals, p.conflicts, p.drops]);
+  const sum = (key: 'expected' | 'found' | 'outputs' | 'correct') => kinds.reduce((n, k) => n + k[key], 0);
+  const total = (pick: (p: PackScore) => number) => scores.reduce((n, p) => n + pick(p), 0);
+
+  return {
+    precision: ratio(sum('correct'), sum('outputs')),
+    recall: ratio(sum('found'), sum('expected')),
+    severity_accuracy: ratio(total(p => p.counts.severity_correct), total(p => p.counts.severity_checked)),
+    grounding_rate: ratio(total(p => p.counts.grounded), total(p => p.counts.checkable_spans)),
+  };
+}
+
+// evals/<eval id>.json with every pack's detail, plus one summary line in evals/history.jsonl
+export function saveEval(result: EvalResult): string {
+  mkdirSync(EVALS_DIR, { recursive: true });
+  const path = join(EVALS_DIR, `${result.eval_id}.json`);
+  writeFileSync(path, JSON.stringify(result, null, 2));
+
+  const summary: EvalSummary = {
+    eval_id: result.eval_id,
+    created_at: result.created_at,
+    prompt_version: result.prompt_version,
+    config_hash: result.config_hash,
+    provider: result.provider,
+    model: result.model,
+    totals: result.totals,
+    packs: Object.fromEntries(result.packs.map(p => [p.pack_id, {
+      precision: p.precision,
+      recall: p.recall,
+      severity_accuracy: p.severity_accuracy,
+      grounding_rate: p.grounding_rate,
+      golden_version: p.golden_version,
+    }])),
+    failed: result.failed.map(f => f.pack_id),
+  };
+  appendFileSync(HISTORY_PATH, JSON.stringify(summary) + '\n');
+  return path;
+}
+
+// Oldest first, one entry per evaluation
+export function loadEvalHistory(): EvalSummary[] {
+  if (!existsSync(HISTORY_PATH)) return [];
+  return readFileSync(HISTORY_PATH, 'utf-8')
+    .split('\n')
+    .filter(line => line.trim())
+    .flatMap(line => {
+      try {
+        return [JSON.parse(line)];
+      } catch {
+        console.warn('[eval] Skipping unreadable history line');
+        return [];
+      }
+    });
+}
@@ -0,0 +1,243 @@
+// graph.ts - Dependency graph of a run (blocking signals, BLOCKER conflicts, next checks), its validation and the check order
+
+import { Signal, Conflict, NextCheck, Severity } from './types';
+import { TemplateRegistry, positionalCheckId } from './templates';
+import { DanglingRef } from './ids';
+
+export type GraphNodeKind = 'signal' | 'conflict' | 'next_check';
+
+export interface GraphNode {
+  id: string;
+  kind: GraphNodeKind;
+  type: string;          // Signal or conflict type, or the check's template
+  label: string;         // Summary, topic or question
+  severity?: Severity;   // Signals only
+  status?: string;       // Next checks only: lifecycle status
+  depth: number;         // Longest chain of prerequisites before this node
+}
+
+// `from` has to be done or cleared before `to`
+export interface GraphEdge {
+  from: string;
+  to: string;
+  kind: 'blocks' | 'resolves' | 'after';
+  in_cycle?: boolean;    // Ignored for the ordering
+}
+
+export interface GraphIssue {
+  kind: 'cycle' | 'dangling_ref' | 'self_reference';
+  ids: string[];
+  detail: string;
+}
+
+export interface DependencyGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  order: string[];       // Next check IDs, blockers first
+  issues: GraphIssue[];
+}
+
+interface GraphFindings {
+  signals: Signal[];
+  conflicts: Conflict[];
+  next_checks: NextCheck[];
+}
+
+const SEVERITY_RANK: Record<Severity, number> = { critical: 0, high: 1, medium: 2, low: 3 };
+
+// "liquidity" for "liquidity.cash_definition"
+const domain = (type: string | undefined) => (type || '').split('.')[0];
+
+const checkId = (check: NextCheck, index: number) => check.id || positionalCheckId(index);
+
+function findEdges(findings: GraphFindings, registry: TemplateRegistry, issues: GraphIssue[]): GraphEdge[] {
+  const edges = new Map<string, GraphEdge>();
+  const add = (from: string, to: string, kind: GraphEdge['kind']) => {
+    if (from !== to && !edges.has(`${from}\u0000${to}`)) edges.set(`${from}\u0000${to}`, { from, to, kind });
+  };
+  const signalIds = new Set(findings.signals.map(s => s.id));
+
+  // A signal blocks the signals it lists
+  for (const signal of findings.signals) {
+    for (const ref of signal.blocker_for || []) {
+      if (ref === signal.id) {
+        issues.push({ kind: 'self_reference', ids: [signal.id], detail: `${signal.id} lists itself in blocker_for` });
+      } else if (!signalIds.has(ref)) {
+        issues.push({ kind: 'dangling_ref', ids: [signal.id, ref], detail: `${signal.id} blocks unknown signal ${ref}` });
+      } else {
+        add(signal.id, ref, 'blocks');
+      }
+    }
+  }
+
+  // A BLOCKER conflict blocks the signals of its domain: a disputed cash figure blocks every liquidity signal
+  for (const conflict of findings.conflicts) {
+    if (!conflict.flags?.includes('BLOCKER')) continue;
+    for (const signal of findings.signals) {
+      if (domain(signal.type) === domain(conflict.type)) add(conflict.id, signal.id, 'blocks');
+    }
+  }
+
+  // A check comes before what its template resolves, and after the checks of the templates it names in `after`
+  findings.next_checks.forEach((check, i) => {
+    const template = registry.templates[check.template];
+    if (!template) return;
+    const resolves = new Set(template.resolves || []);
+    for (const item of [...findings.signals, ...findings.conflicts]) {
+      if (resolves.has(item.type)) add(checkId(check, i), item.id, 'resolves');
+    }
+    findings.next_checks.forEach((other, j) => {
+      if (template.after?.includes(other.template)) add(checkId(other, j), checkId(check, i), 'after');
+    });
+  });
+
+  return [...edges.values()];
+}
+
+// Strongly connected components with more than one node (Tarjan)
+function findCycles(ids: string[], edges: GraphEdge[]): string[][] {
+  const next = new Map<string, string[]>(ids.map(id => [id, []]));
+  for (const edge of edges) next.get(edge.from)?.push(edge.to);
+
+  const index = new Map<string, number>();
+  const low = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+
+  const visit = (id: string) => {
+    index.set(id, index.size);
+    low.set(id, index.get(id)!);
+    stack.push(id);
+    onStack.add(id);
+
+    for (const to of next.get(id) || []) {
+      if (!index.has(to)) {
+        visit(to);
+        low.set(id, Math.min(low.get(id)!, low.get(to)!));
+      } else if (onStack.has(to)) {
+        low.set(id, Math.min(low.get(id)!, index.get(to)!));
+      }
+    }
+
+    if (low.get(id) === index.get(id)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== id);
+      if (component.length > 1) cycles.push(component.reverse());
+    }
+  };
+
+  for (const id of ids) if (!index.has(id)) visit(id);
+  return cycles;
+}
+
+// Build the graph, flag cycles and order every node so prerequisites come first. Among nodes that are ready at
+// the same time, the one heading the longest chain goes first, then the one unblocking the highest severity,
+// then the model's priority.
+export function buildGraph(findings: GraphFindings, registry: TemplateRegistry, danglingRefs: DanglingRef[] = []): DependencyGraph {
+  const issues: GraphIssue[] = danglingRefs.map(ref => ({
+    kind: 'dangling_ref' as const,
+    ids: [ref.from, ref.ref],
+    detail: `${ref.from} ${ref.field} references unknown ${ref.ref} (removed at compile)`,
+  }));
+
+  const nodes: GraphNode[] = [
+    ...findings.signals.map(s => ({ id: s.id, kind: 'signal' as const, type: s.type, label: s.summary, severity: s.severity, depth: 0 })),
+    ...findings.conflicts.map(c => ({ id: c.id, kind: 'conflict' as const, type: c.type, label: c.topic, depth: 0 })),
+    ...findings.next_checks.map((c, i) => ({
+      id: checkId(c, i),
+      kind: 'next_check' as const,
+      type: c.template,
+      label: c.question,
+      ...(c.status ? { status: c.status } : {}),
+      depth: 0,
+    })),
+  ];
+  const byId = new Map(nodes.map(n => [n.id, n]));
+
+  const edges = findEdges(findings, registry, issues);
+  for (const cycle of findCycles(nodes.map(n => n.id), edges)) {
+    const members = new Set(cycle);
+    for (const edge of edges) if (members.has(edge.from) && members.has(edge.to)) edge.in_cycle = true;
+    issues.push({ kind: 'cycle', ids: cycle, detail: `Dependency cycle: ${[...cycle, cycle[0]].join(' -> ')}` });
+    console.warn(`[graph] Cycle ${cycle.join(' -> ')} - its edges are ignored for the order`);
+  }
+
+  const acyclic = edges.filter(e => !e.in_cycle);
+  const next = new Map<string, string[]>(nodes.map(n => [n.id, []]));
+  const indegree = new Map<string, number>(nodes.map(n => [n.id, 0]));
+  for (const edge of acyclic) {
+    next.get(edge.from)!.push(edge.to);
+    indegree.set(edge.to, indegree.get(edge.to)! + 1);
+  }
+
+  // Longest chain below each node, and the most severe signal it leads to
+  const chain = new Map<string, { length: number; rank: number }>();
+  const below = (id: string): { length: number; rank: number } => {
+    if (chain.has(id)) return chain.get(id)!;
+    const node = byId.get(id)!;
+    let result = { length: 0, rank: node.severity ? SEVERITY_RANK[node.severity] : 4 };
+    for (const to of next.get(id)!) {
+      const child = below(to);
+      result = { length: Math.max(result.length, child.length + 1), rank: Math.min(result.rank, child.rank) };
+    }
+    chain.set(id, result);
+    return result;
+  };
+
+  const position = new Map(nodes.map((n, i) => [n.id, i]));
+  const priority = new Map(findings.next_checks.map((c, i) => [checkId(c, i), c.priority ?? i + 1]));
+  const before = (a: string, b: string) =>
+    below(b).length - below(a).length ||
+    below(a).rank - below(b).rank ||
+    (priority.get(a) ?? 0) - (priority.get(b) ?? 0) ||
+    position.get(a)! - position.get(b)!;
+
+  const ready = nodes.filter(n => indegree.get(n.id) === 0).map(n => n.id);
+  const ordered: string[] = [];
+  while (ready.length) {
+    ready.sort(before);
+    const id = ready.shift()!;
+    ordered.push(id);
+    for (const to of next.get(id)!) {
+      byId.get(to)!.depth = Math.max(byId.get(to)!.depth, byId.get(id)!.depth + 1);
+      indegree.set(to, indegree.get(to)! - 1);
+      if (indegree.get(to) === 0) ready.push(to);
+    }
+  }
+
+  return {
+    nodes,
+    edges,
+    order: ordered.filter(id => byId.get(id)!.kind === 'next_check'),
+    issues,
+  };
+}
+
+// Renumber check priorities in dependency order; the model's number is kept as model_priority where it changed
+export function orderChecks(
+  findings: GraphFindings,
+  registry: TemplateRegistry,
+  danglingRefs: DanglingRef[] = []
+): { next_checks: NextCheck[]; graph_issues: GraphIssue[] } {
+  const graph = buildGraph(findings, registry, danglingRefs);
+  const rank = new Map(graph.order.map((id, i) => [id, i]));
+
+  let moved = 0;
+  const next_checks = findings.next_checks
+    .map((check, i) => ({ check, rank: rank.get(checkId(check, i))! }))
+    .sort((a, b) => a.rank - b.rank)
+    .map(({ check }, i) => {
+      if (check.priority === i + 1) return check;
+      moved++;
+      return { ...check, priority: i + 1, model_priority: check.model_priority ?? check.priority };
+    });
+
+  console.log(`[graph] ${graph.nodes.length} nodes, ${graph.edges.length} edges, ${graph.issues.length} issues; ${moved} of ${next_checks.length} check priorities changed`);
+  return { next_checks, graph_issues: graph.issues };
+}
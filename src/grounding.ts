@@ -0,0 +1,304 @@
+// grounding.ts - Check evidence quotes against the text actually in the input documents
+
+import { Signal, Conflict, ConflictClaim, Drop, EvidenceSpan, Grounding } from './types';
+import { InputType } from './ingest';
+
+// A loaded input document with its text split per page (index 0 = page 1)
+export interface SourceDocument {
+  doc_id: string;
+  filename: string;
+  type?: InputType;
+  pages: string[];
+  lines?: string[];    // Text and email documents (index 0 = line 1)
+  rows?: { sheet: string; row: number; cells: { ref: string; text: string }[] }[];  // Spreadsheets
+}
+
+// Where the model says a quote is
+export interface Locator {
+  page?: number;
+  line?: number;
+  sheet?: string;
+  cell?: string;
+}
+
+export interface GroundingSummary {
+  checked: number;
+  verified: number;
+  relocated: number;
+  no_text_layer: number;
+  not_found: number;
+}
+
+// Share of quote tokens that must appear in a page window to count as found
+export const MIN_MATCH_SCORE = 0.8;
+
+// Quotes in text documents may wrap over a few lines
+const LINE_WINDOW = 3;
+
+// Lowercase, unify quotes/dashes, and reduce to alphanumeric tokens
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[‘’“”]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean);
+}
+
+// Jaccard overlap of the token sets; 1 when both are empty
+export function similarity(a: string, b: string): number {
+  const ta = new Set(tokenize(a));
+  const tb = new Set(tokenize(b));
+  if (ta.size === 0 && tb.size === 0) return 1;
+
+  let shared = 0;
+  for (const t of ta) if (tb.has(t)) shared++;
+  return shared / (ta.size + tb.size - shared);
+}
+
+// Best share of quote tokens found in any same-length window of the page
+function scorePage(quoteTokens: string[], pageTokens: string[]): number {
+  if (quoteTokens.length === 0 || pageTokens.length === 0) return 0;
+
+  const needed = new Map<string, number>();
+  for (const t of quoteTokens) needed.set(t, (needed.get(t) || 0) + 1);
+
+  const window = new Map<string, number>();
+  const size = Math.min(quoteTokens.length, pageTokens.length);
+  let matched = 0;
+  let best = 0;
+
+  const add = (t: string) => {
+    const n = (window.get(t) || 0) + 1;
+    window.set(t, n);
+    if (n <= (needed.get(t) || 0)) matched++;
+  };
+  const remove = (t: string) => {
+    const n = window.get(t) || 0;
+    if (n <= (needed.get(t) || 0)) matched--;
+    window.set(t, n - 1);
+  };
+
+  for (let i = 0; i < pageTokens.length; i++) {
+    add(pageTokens[i]);
+    if (i >= size) remove(pageTokens[i - size]);
+    if (i >= size - 1) best = Math.max(best, matched / quoteTokens.length);
+    if (best === 1) break;
+  }
+
+  return best;
+}
+
+// Find the document an evidence `source` refers to ("weekly-pack", "weekly-pack.pdf" or the filename)
+export function resolveSource(source: string | undefined, docs: SourceDocument[]): SourceDocument | undefined {
+  if (!source) return undefined;
+  const stripExt = (name: string) => name.trim().toLowerCase().replace(/\.[a-z0-9]{2,4}$/, '');
+  const key = stripExt(source);
+
+  return docs.find(d =>
+    d.doc_id.toLowerCase() === key ||
+    stripExt(d.filename) === key ||
+    stripExt(d.filename.split('/').pop() || '') === key
+  );
+}
+
+export function matchQuote(quote: string, doc: SourceDocument | undefined, at: Locator = {}): Grounding {
+  if (!doc) return { status: 'not_found', score: 0 };
+
+  const quoteTokens = tokenize(quote);
+  if (doc.rows) return matchRows(quoteTokens, doc.rows, at);
+  if (doc.lines) return matchLines(quoteTokens, doc.lines, at.line);
+
+  const hasText = doc.pages.some(p => p.trim().length > 0);
+  if (!hasText) return { status: 'no_text_layer', score: 0 };
+
+  const claimedPage = at.page;
+  const scores = doc.pages.map(p => scorePage(quoteTokens, tokenize(p)));
+
+  // Prefer the claimed page whenever it matches
+  if (claimedPage && scores[claimedPage - 1] >= MIN_MATCH_SCORE) {
+    return { status: 'verified', score: round(scores[claimedPage - 1]) };
+  }
+
+  let bestIdx = 0;
+  for (let i = 1; i < scores.length; i++) {
+    if (scores[i] > scores[bestIdx]) bestIdx = i;
+  }
+
+  if (scores[bestIdx] >= MIN_MATCH_SCORE) {
+    return { status: 'relocated', score: round(scores[bestIdx]), matched_page: bestIdx + 1 };
+  }
+
+  // A scanned page inside an otherwise digital document cannot be checked
+  const claimedText = claimedPage ? doc.pages[claimedPage - 1] : undefined;
+  if (claimedText !== undefined && claimedText.trim().length === 0) {
+    return { status: 'no_text_layer', score: 0 };
+  }
+
+  return { status: 'not_found', score: round(scores[bestIdx]) };
+}
+
+function matchLines(quoteTokens: string[], lines: string[], claimedLine?: number): Grounding {
+  const lineScore = (i: number) => scorePage(quoteTokens, tokenize(lines[i]));
+  // A window only counts if the quote starts on its first line
+  const windowScore = (i: number) =>
+    lineScore(i) > 0 ? scorePage(quoteTokens, tokenize(lines.slice(i, i + LINE_WINDOW).join(' '))) : 0;
+
+  if (claimedLine && claimedLine <= lines.length) {
+    const score = windowScore(claimedLine - 1);
+    if (score >= MIN_MATCH_SCORE) return { status: 'verified', score: round(score) };
+  }
+
+  // Single lines first so matched_line points at the quote itself, then wrapped windows
+  let best = { idx: 0, score: 0 };
+  for (const scoreAt of [lineScore, windowScore]) {
+    for (let i = 0; i < lines.length; i++) {
+      const score = scoreAt(i);
+      if (score > best.score) best = { idx: i, score };
+    }
+    if (best.score >= MIN_MATCH_SCORE) {
+      return { status: 'relocated', score: round(best.score), matched_line: best.idx + 1 };
+    }
+  }
+
+  return { status: 'not_found', score: round(best.score) };
+}
+
+function matchRows(quoteTokens: string[], rows: NonNullable<SourceDocument['rows']>, at: Locator): Grounding {
+  const rowScore = (row: typeof rows[number]) => scorePage(quoteTokens, tokenize(row.cells.map(c => c.text).join(' ')));
+
+  const claimed = at.cell
+    ? rows.find(r => (!at.sheet || r.sheet === at.sheet) && r.cells.some(c => c.ref === at.cell!.toUpperCase()))
+    : undefined;
+  if (claimed) {
+    const score = rowScore(claimed);
+    if (score >= MIN_MATCH_SCORE) return { status: 'verified', score: round(score) };
+  }
+
+  let best: { row?: typeof rows[number]; score: number } = { score: 0 };
+  for (const row of rows) {
+    const score = rowScore(row);
+    if (score > best.score) best = { row, score };
+  }
+
+  if (best.row && best.score >= MIN_MATCH_SCORE) {
+    // Point at the cell in the row that shares the most tokens with the quote
+    const quoteSet = new Set(quoteTokens);
+    const overlap = (text: string) => tokenize(text).filter(t => quoteSet.has(t)).length;
+    const cell = best.row.cells.reduce((a, b) => (overlap(b.text) > overlap(a.text) ? b : a));
+    return { status: 'relocated', score: round(best.score), matched_cell: `${best.row.sheet}!${cell.ref}` };
+  }
+
+  return { status: 'not_found', score: round(best.score) };
+}
+
+// Human-readable locator for reports: "p.2", "line 14", "Cash!B4"
+export function formatLocator(at: Locator & { bbox?: number[] }): string {
+  if (at.cell) return at.sheet ? `${at.sheet}!${at.cell}` : at.cell;
+  if (at.line) return `line ${at.line}`;
+  const page = `p.${at.page || '?'}`;
+  return at.bbox ? `${page} [${at.bbox.join(', ')}]` : page;
+}
+
+function round(score: number): number {
+  return Math.round(score * 100) / 100;
+}
+
+function describeMiss(source: string | undefined, quote: string, docs: SourceDocument[]): string {
+  if (!resolveSource(source, docs)) {
+    return `Source "${source}" is not part of this pack`;
+  }
+  return `Quote not found in ${source}: "${quote}"`;
+}
+
+// Attach a grounding result to every evidence span and claim; demote anything invented to drops
+export function groundEvidence(
+  signals: Signal[],
+  conflicts: Conflict[],
+  docs: SourceDocument[]
+): { signals: Signal[]; conflicts: Conflict[]; drops: Drop[]; summary: GroundingSummary } {
+  const summary: GroundingSummary = { checked: 0, verified: 0, relocated: 0, no_text_layer: 0, not_found: 0 };
+  const drops: Drop[] = [];
+
+  const check = (source: string | undefined, quote: string, at: Locator): Grounding => {
+    const grounding = matchQuote(quote, resolveSource(source, docs), at);
+    summary.checked++;
+    summary[grounding.status]++;
+    return grounding;
+  };
+
+  const groundedSignals: Signal[] = [];
+  for (const signal of signals) {
+    const kept: EvidenceSpan[] = [];
+    const misses: { idx: number; ev: EvidenceSpan; detail: string }[] = [];
+
+    for (const [idx, ev] of signal.evidence.entries()) {
+      const grounding = check(ev.source, ev.quote, ev);
+      if (grounding.status === 'not_found') {
+        console.warn(`[grounding] Signal ${signal.id}: quote not found in ${ev.source}`);
+        misses.push({ idx, ev, detail: describeMiss(ev.source, ev.quote, docs) });
+      } else {
+        kept.push({ ...ev, grounding });
+      }
+    }
+
+    if (kept.length === 0) {
+      drops.push({
+        id: `D_${signal.id}`,
+        what: signal.summary,
+        reason: 'QUOTE_NOT_FOUND',
+        detail: misses.map(m => m.detail).join('; '),
+        would_fix: 'Re-run extraction or locate the quoted passage manually',
+      });
+    } else {
+      // The signal stands on its grounded evidence; each span that was not found is still reported
+      for (const { idx, ev, detail } of misses) {
+        drops.push({
+          id: `D_${signal.id}_${idx + 1}`,
+          what: `${signal.summary}: evidence from ${ev.source}`,
+          reason: 'QUOTE_NOT_FOUND',
+          detail,
+          would_fix: 'Locate the quoted passage manually before relying on this evidence',
+        });
+      }
+      groundedSignals.push({ ...signal, evidence: kept });
+    }
+  }
+
+  const groundedConflicts: Conflict[] = [];
+  for (const conflict of conflicts) {
+    const claims: ConflictClaim[] = [];
+
+    for (const [idx, claim] of (conflict.claims || []).entries()) {
+      const grounding = check(claim.source, claim.quote || '', claim);
+      if (grounding.status === 'not_found') {
+        console.warn(`[grounding] Conflict ${conflict.id}: claim quote not found in ${claim.source}`);
+        drops.push({
+          id: `D_${conflict.id}_${idx + 1}`,
+          what: `${conflict.topic}: ${claim.value} (${claim.source})`,
+          reason: 'QUOTE_NOT_FOUND',
+          detail: describeMiss(claim.source, claim.quote, docs),
+          would_fix: 'Re-run extraction or locate the quoted passage manually',
+        });
+      } else {
+        claims.push({ ...claim, grounding });
+      }
+    }
+
+    // A conflict needs at least two grounded claims to still be a conflict
+    if (claims.length < 2 && (conflict.claims || []).length >= 2) {
+      drops.push({
+        id: `D_${conflict.id}`,
+        what: conflict.topic,
+        reason: 'QUOTE_NOT_FOUND',
+        detail: `Only ${claims.length} of ${conflict.claims.length} claims could be found in the sources`,
+        would_fix: 'Re-run extraction or verify the disputed values manually',
+      });
+    } else {
+      groundedConflicts.push({ ...conflict, claims });
+    }
+  }
+
+  return { signals: groundedSignals, conflicts: groundedConflicts, drops, summary };
+}
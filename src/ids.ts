@@ -0,0 +1,194 @@
+// ids.ts - Deterministic IDs derived from content, so the same finding keeps its ID across runs
+
+import { createHash } from 'crypto';
+import { Signal, Conflict, Drop, NextCheck } from './types';
+import { SourceDocument, Locator, resolveSource, tokenize } from './grounding';
+import { ValueIssue } from './numbers';
+import { SeverityCheck } from './severity';
+import { TemplateIssue, positionalCheckId } from './templates';
+
+// A reference to an ID that does not exist in the run
+export interface DanglingRef {
+  from: string;     // ID of the item holding the reference
+  field: string;
+  ref: string;      // The ID as the model wrote it
+}
+
+// Everything in a verified run that carries or mentions an ID
+export interface IdentifiedFindings {
+  signals: Signal[];
+  conflicts: Conflict[];
+  drops: Drop[];
+  next_checks: NextCheck[];
+  value_issues: ValueIssue[];
+  severity_checks: SeverityCheck[];
+  template_issues: TemplateIssue[];
+}
+
+// doc_id -> sha256 of the file, so IDs change when the document changes
+export type DocHashes = Record<string, string>;
+
+const HASH_LENGTH = 10;
+
+function shortHash(parts: (string | number | undefined)[]): string {
+  return createHash('sha256').update(parts.map(p => p ?? '').join('\u0000')).digest('hex').slice(0, HASH_LENGTH);
+}
+
+// Where a quote lives, preferring the location grounding found over the one the model cited
+function locationKey(at: Locator & { grounding?: { matched_page?: number; matched_line?: number; matched_cell?: string } }): string {
+  const g = at.grounding;
+  if (at.sheet || at.cell) return `${at.sheet || ''}!${g?.matched_cell || at.cell || ''}`;
+  if (at.line !== undefined || g?.matched_line !== undefined) return `l${g?.matched_line ?? at.line}`;
+  return `p${g?.matched_page ?? at.page ?? ''}`;
+}
+
+function docHash(source: string | undefined, docs: SourceDocument[], hashes: DocHashes): string {
+  const doc = resolveSource(source, docs);
+  return doc ? hashes[doc.doc_id] || doc.doc_id : (source || '').toLowerCase();
+}
+
+function normalizeQuote(quote: string | undefined): string {
+  return tokenize(quote || '').join(' ');
+}
+
+// ID of one evidence span; identical spans cited by several findings share it
+export function evidenceId(
+  span: Locator & { source?: string; quote?: string },
+  docs: SourceDocument[],
+  hashes: DocHashes
+): string {
+  return `ev-${shortHash([docHash(span.source, docs, hashes), locationKey(span), normalizeQuote(span.quote)])}`;
+}
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Hashes of the documents a drop names ("evidence from email-thread.pdf"), or of the whole pack when it names none,
+// so the same drop against a changed document gets a new ID
+function dropDocHashes(drop: Drop, docs: SourceDocument[], hashes: DocHashes): string[] {
+  const text = `${drop.what} ${drop.detail || ''}`.toLowerCase();
+  const named = docs.filter(doc => {
+    const file = doc.filename.split(/[\\/]/).pop()!.toLowerCase();
+    return text.includes(file) || new RegExp(`(?<![\\w-])${escapeRegExp(doc.doc_id.toLowerCase())}(?![\\w-])`).test(text);
+  });
+  return (named.length ? named : docs).map(doc => hashes[doc.doc_id] || doc.doc_id).sort();
+}
+
+// Hands out IDs, suffixing -2, -3 ... when two findings have identical content
+function idAllocator() {
+  const used = new Set<string>();
+  return (id: string): string => {
+    let unique = id;
+    for (let n = 2; used.has(unique); n++) unique = `${id}-${n}`;
+    used.add(unique);
+    return unique;
+  };
+}
+
+// Slots as sorted "name=value" pairs, so the same check keeps its ID whatever order the model lists them in
+function slotKeys(slots: NextCheck['slots']): string[] {
+  return Object.entries(slots || {}).map(([k, v]) => `${k}=${normalizeQuote(String(v))}`).sort();
+}
+
+// Rewrites whole-word mentions of old IDs in free text ("Resolve S1 first")
+export function idRewriter(idMap: Record<string, string>): (text: string) => string {
+  // Longest first so S10 is not rewritten as S1 + "0"
+  const oldIds = Object.keys(idMap).filter(Boolean).sort((a, b) => b.length - a.length);
+  if (oldIds.length === 0) return text => text;
+  const pattern = new RegExp(`(?<![\\w-])(${oldIds.map(escapeRegExp).join('|')})(?![\\w-])`, 'g');
+  return text => text.replace(pattern, id => idMap[id]);
+}
+
+// Replace stable IDs for the model's positional ones, rewrite every reference, and report references to nothing
+export function assignStableIds(
+  findings: IdentifiedFindings,
+  docs: SourceDocument[],
+  hashes: DocHashes
+): IdentifiedFindings & { id_map: Record<string, string>; dangling_refs: DanglingRef[] } {
+  const allocate = idAllocator();
+  const idMap: Record<string, string> = {};
+
+  const spanKeys = (spans: (Locator & { source?: string; quote?: string })[]) =>
+    spans.map(span => evidenceId(span, docs, hashes)).sort();
+
+  // Each finding gets its own stable ID. A model ID used twice (two signals, or a signal and a conflict) keeps
+  // meaning the first finding in references, so the second cannot take over its ID.
+  const mapped = new Set<string>();
+  const mapId = (modelId: string, stableId: string): string => {
+    if (mapped.has(modelId)) {
+      console.warn(`[ids] Model ID ${modelId} is used twice - references to it point to the first finding`);
+    } else {
+      mapped.add(modelId);
+      idMap[modelId] = stableId;
+    }
+    return stableId;
+  };
+
+  const signalIds = findings.signals.map(signal =>
+    mapId(signal.id, allocate(`S-${shortHash([signal.type, ...spanKeys(signal.evidence)])}`)));
+  const conflictIds = findings.conflicts.map(conflict =>
+    mapId(conflict.id, allocate(`C-${shortHash([conflict.type, ...spanKeys(conflict.claims)])}`)));
+
+  const rewrite = idRewriter(idMap);
+
+  const stableSignalIds = new Set(signalIds);
+  const danglingRefs: DanglingRef[] = [];
+
+  const signals = findings.signals.map((signal, i) => {
+    const blockerFor = (signal.blocker_for || []).filter(ref => {
+      if (stableSignalIds.has(idMap[ref])) return true;
+      danglingRefs.push({ from: signalIds[i], field: 'blocker_for', ref });
+      console.warn(`[ids] ${signal.id} blocks unknown signal ${ref} - reference removed`);
+      return false;
+    });
+
+    return {
+      ...signal,
+      id: signalIds[i],
+      recommended_check: rewrite(signal.recommended_check || ''),
+      ...(signal.blocker_for ? { blocker_for: blockerFor.map(ref => idMap[ref]) } : {}),
+    };
+  });
+
+  const conflicts = findings.conflicts.map((conflict, i) => ({
+    ...conflict,
+    id: conflictIds[i],
+    how_to_resolve: rewrite(conflict.how_to_resolve || ''),
+  }));
+
+  const allocateDrop = idAllocator();
+  const drops = findings.drops.map(drop => ({
+    ...drop,
+    id: allocateDrop(`D-${shortHash([drop.reason, normalizeQuote(drop.what), ...dropDocHashes(drop, docs, hashes)])}`),
+    detail: rewrite(drop.detail || ''),
+  }));
+
+  // Next checks are identified by template + slots (or the question when there are none), after rewriting
+  const allocateCheck = idAllocator();
+  const checkIds: Record<string, string> = {};
+  const next_checks = findings.next_checks.map((check, i) => {
+    const rewritten = {
+      ...check,
+      question: rewrite(check.question || ''),
+      done_when: rewrite(check.done_when || ''),
+      ...(check.slots ? {
+        slots: Object.fromEntries(Object.entries(check.slots).map(([k, v]) => [k, typeof v === 'string' ? rewrite(v) : v])),
+      } : {}),
+    };
+    const content = rewritten.slots ? slotKeys(rewritten.slots) : [normalizeQuote(rewritten.question)];
+    const id = allocateCheck(`N-${shortHash([check.template, ...content])}`);
+    checkIds[positionalCheckId(i)] = id;
+    return { id, ...rewritten };
+  });
+
+  return {
+    signals,
+    conflicts,
+    drops,
+    next_checks,
+    value_issues: findings.value_issues.map(issue => ({ ...issue, target: rewrite(issue.target) })),
+    severity_checks: findings.severity_checks.map(check => ({ ...check, signal_id: idMap[check.signal_id] || check.signal_id })),
+    template_issues: findings.template_issues.map(issue => ({ ...issue, check_id: checkIds[issue.check_id] || issue.check_id })),
+    id_map: idMap,
+    dangling_refs: danglingRefs,
+  };
+}
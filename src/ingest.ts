@@ -0,0 +1,262 @@
+// ingest.ts - Per-type adapters that turn input files into model parts and checkable text
+
+import { extname } from 'path';
+import { ModelPart } from './providers';
+import { SourceDocument } from './grounding';
+
+export const INPUT_TYPES = ['pdf', 'email', 'spreadsheet', 'image', 'text'] as const;
+export type InputType = typeof INPUT_TYPES[number];
+
+export interface IngestedDocument {
+  type: InputType;
+  parts: ModelPart[];          // What the model sees for this document
+  document: SourceDocument;    // What the grounding check matches quotes against
+  page_count?: number;
+}
+
+interface IngestAdapter {
+  type: InputType;
+  extensions: string[];
+  matches(data: Buffer): boolean;   // Magic-byte check so a renamed file is rejected
+  ingest(data: Buffer, docId: string, filename: string): Promise<IngestedDocument>;
+}
+
+const IMAGE_MIME: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+};
+
+const startsWith = (data: Buffer, bytes: number[]) => bytes.every((b, i) => data[i] === b);
+
+// Anything with a NUL byte in the first 8 KB is not plain text
+const looksLikeText = (data: Buffer) => !data.subarray(0, 8192).includes(0);
+
+// Extract plain text per page. Returns [] if the PDF cannot be parsed.
+export async function extractPageText(data: Buffer): Promise<string[]> {
+  // Loaded lazily - pdfjs prints canvas warnings on require
+  const pdfjs = await import('pdfjs-dist/legacy/build/pdf');
+
+  try {
+    const doc = await pdfjs.getDocument({ data: new Uint8Array(data), verbosity: 0 }).promise;
+    const pages: string[] = [];
+
+    for (let i = 1; i <= doc.numPages; i++) {
+      const page = await doc.getPage(i);
+      const content = await page.getTextContent();
+      pages.push(content.items.map((item: any) => item.str || '').join(' '));
+    }
+
+    await doc.destroy();
+    return pages;
+  } catch (e) {
+    console.warn('[ingest] Failed to extract PDF text:', e instanceof Error ? e.message : e);
+    return [];
+  }
+}
+
+// Split a PDF into consecutive page ranges of at most pagesPerPart pages
+export async function splitPdf(data: Buffer, pagesPerPart: number): Promise<{ first_page: number; last_page: number; data: Buffer }[]> {
+  const { PDFDocument } = await import('pdf-lib');
+  const source = await PDFDocument.load(data, { ignoreEncryption: true });
+  const total = source.getPageCount();
+  const parts: { first_page: number; last_page: number; data: Buffer }[] = [];
+
+  for (let start = 0; start < total; start += pagesPerPart) {
+    const end = Math.min(start + pagesPerPart, total);
+    const part = await PDFDocument.create();
+    const pages = await part.copyPages(source, Array.from({ length: end - start }, (_, i) => start + i));
+    pages.forEach(page => part.addPage(page));
+    parts.push({ first_page: start + 1, last_page: end, data: Buffer.from(await part.save()) });
+  }
+  return parts;
+}
+
+// Line-numbered text so the model can cite `line`
+function numberLines(lines: string[]): string {
+  const width = String(lines.length).length;
+  return lines.map((line, i) => `${String(i + 1).padStart(width)} | ${line}`).join('\n');
+}
+
+function lineDocument(type: InputType, docId: string, filename: string, lines: string[], note: string): IngestedDocument {
+  return {
+    type,
+    parts: [{ text: `[${note}: cite evidence with "line" numbers from the left column; do not include the numbers in quotes]\n${numberLines(lines)}` }],
+    document: { doc_id: docId, filename, type, pages: [lines.join('\n')], lines },
+  };
+}
+
+const pdfAdapter: IngestAdapter = {
+  type: 'pdf',
+  extensions: ['.pdf'],
+  matches: data => data.subarray(0, 5).toString('latin1') === '%PDF-',
+  async ingest(data, docId, filename) {
+    const pages = await extractPageText(data);
+    return {
+      type: 'pdf',
+      parts: [{ inlineData: { mimeType: 'application/pdf', data: data.toString('base64') } }],
+      document: { doc_id: docId, filename, type: 'pdf', pages },
+      page_count: pages.length || undefined,
+    };
+  },
+};
+
+const imageAdapter: IngestAdapter = {
+  type: 'image',
+  extensions: Object.keys(IMAGE_MIME),
+  matches: data =>
+    startsWith(data, [0x89, 0x50, 0x4e, 0x47]) ||                   // PNG
+    startsWith(data, [0xff, 0xd8, 0xff]) ||                         // JPEG
+    data.subarray(8, 12).toString('latin1') === 'WEBP',
+  async ingest(data, docId, filename) {
+    return {
+      type: 'image',
+      parts: [
+        { text: '[Image: cite evidence as page 1 with a bbox]\n' },
+        { inlineData: { mimeType: IMAGE_MIME[extname(filename).toLowerCase()], data: data.toString('base64') } },
+      ],
+      // No text layer - quotes are reported as no_text_layer
+      document: { doc_id: docId, filename, type: 'image', pages: [''] },
+      page_count: 1,
+    };
+  },
+};
+
+const textAdapter: IngestAdapter = {
+  type: 'text',
+  extensions: ['.txt', '.md', '.log'],
+  matches: looksLikeText,
+  async ingest(data, docId, filename) {
+    const lines = data.toString('utf-8').replace(/\r\n?/g, '\n').split('\n');
+    return lineDocument('text', docId, filename, lines, 'Text document');
+  },
+};
+
+const emailAdapter: IngestAdapter = {
+  type: 'email',
+  extensions: ['.eml', '.msg'],
+  matches: data => startsWith(data, [0xd0, 0xcf, 0x11, 0xe0]) || looksLikeText(data),   // OLE (.msg) or MIME text (.eml)
+  async ingest(data, docId, filename) {
+    const lines = extname(filename).toLowerCase() === '.msg' ? await msgLines(data) : await emlLines(data);
+    return lineDocument('email', docId, filename, lines, 'Email');
+  },
+};
+
+async function emlLines(data: Buffer): Promise<string[]> {
+  const { simpleParser } = await import('mailparser');
+  const mail = await simpleParser(data);
+  const addresses = (a: any) => (Array.isArray(a) ? a : a ? [a] : []).map((x: any) => x.text).join(', ');
+
+  return [
+    `From: ${addresses(mail.from)}`,
+    `To: ${addresses(mail.to)}`,
+    ...(mail.cc ? [`Cc: ${addresses(mail.cc)}`] : []),
+    `Date: ${mail.date ? mail.date.toISOString() : ''}`,
+    `Subject: ${mail.subject || ''}`,
+    '',
+    ...(mail.text || '').replace(/\r\n?/g, '\n').split('\n'),
+    ...mail.attachments.map(a => `[Attachment: ${a.filename || 'unnamed'}]`),
+  ];
+}
+
+async function msgLines(data: Buffer): Promise<string[]> {
+  const { default: MsgReader } = await import('@kenjiuno/msgreader');
+  const reader = new MsgReader(data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer);
+  const msg = reader.getFileData();
+  const recipients = (type: string) => (msg.recipients || [])
+    .filter(r => (r.recipType || 'to') === type)
+    .map(r => r.email ? `${r.name || ''} <${r.email}>`.trim() : r.name || '')
+    .join(', ');
+
+  return [
+    `From: ${msg.senderName || ''}${msg.senderEmail ? ` <${msg.senderEmail}>` : ''}`,
+    `To: ${recipients('to')}`,
+    ...(recipients('cc') ? [`Cc: ${recipients('cc')}`] : []),
+    `Date: ${msg.messageDeliveryTime || msg.clientSubmitTime || ''}`,
+    `Subject: ${msg.subject || ''}`,
+    '',
+    ...(msg.body || '').replace(/\r\n?/g, '\n').split('\n'),
+    ...(msg.attachments || []).map(a => `[Attachment: ${a.fileName || 'unnamed'}]`),
+  ];
+}
+
+// Spreadsheets are capped below the upload limit: a small compressed .xlsx can declare millions of cells
+export const MAX_SPREADSHEET_BYTES = 5 * 1024 * 1024;
+const MAX_SHEET_ROWS = 5000;
+const MAX_SHEET_COLUMNS = 200;
+
+const spreadsheetAdapter: IngestAdapter = {
+  type: 'spreadsheet',
+  extensions: ['.xlsx', '.xls', '.csv'],
+  matches: data =>
+    startsWith(data, [0x50, 0x4b, 0x03, 0x04]) ||                   // .xlsx (zip)
+    startsWith(data, [0xd0, 0xcf, 0x11, 0xe0]) ||                   // .xls (OLE)
+    looksLikeText(data),                                            // .csv
+  async ingest(data, docId, filename) {
+    if (data.length > MAX_SPREADSHEET_BYTES) {
+      throw new Error(`${filename} exceeds ${MAX_SPREADSHEET_BYTES / 1024 / 1024} MB (spreadsheet limit)`);
+    }
+    const XLSX = await import('xlsx');
+    // sheetRows stops parsing past the cap; !fullref keeps the declared size, so a truncated sheet is reported
+    const workbook = XLSX.read(data, { type: 'buffer', sheetRows: MAX_SHEET_ROWS + 1 });
+    const rows: NonNullable<SourceDocument['rows']> = [];
+
+    for (const sheet of workbook.SheetNames) {
+      const ws = workbook.Sheets[sheet];
+      if (!ws['!ref']) continue;
+      const range = XLSX.utils.decode_range(ws['!fullref'] || ws['!ref']);
+      if (range.e.r - range.s.r + 1 > MAX_SHEET_ROWS || range.e.c - range.s.c + 1 > MAX_SHEET_COLUMNS) {
+        throw new Error(`Sheet "${sheet}" of ${filename} exceeds ${MAX_SHEET_ROWS} rows or ${MAX_SHEET_COLUMNS} columns`);
+      }
+
+      for (let r = range.s.r; r <= range.e.r; r++) {
+        const cells: { ref: string; text: string }[] = [];
+        for (let c = range.s.c; c <= range.e.c; c++) {
+          const ref = XLSX.utils.encode_cell({ r, c });
+          const cell = ws[ref];
+          if (cell && cell.v !== undefined && cell.v !== '') {
+            cells.push({ ref, text: cell.w ?? String(cell.v) });
+          }
+        }
+        if (cells.length > 0) rows.push({ sheet, row: r + 1, cells });
+      }
+    }
+
+    const rendered = rows.map(row => row.cells.map(c => `[${row.sheet}!${c.ref}] ${c.text}`).join('  '));
+    return {
+      type: 'spreadsheet',
+      parts: [{ text: `[Spreadsheet: cite evidence with "sheet" and "cell" from the [Sheet!Cell] markers; do not include the markers in quotes]\n${rendered.join('\n')}` }],
+      document: {
+        doc_id: docId,
+        filename,
+        type: 'spreadsheet',
+        pages: [rows.map(row => row.cells.map(c => c.text).join(' ')).join('\n')],
+        rows,
+      },
+    };
+  },
+};
+
+const ADAPTERS: IngestAdapter[] = [pdfAdapter, imageAdapter, emailAdapter, spreadsheetAdapter, textAdapter];
+
+export const SUPPORTED_EXTENSIONS = ADAPTERS.flatMap(a => a.extensions);
+
+// Picks the adapter by extension, then checks the content agrees. Returns undefined if unsupported.
+export function detectInputType(filename: string, data: Buffer): InputType | undefined {
+  const adapter = ADAPTERS.find(a => a.extensions.includes(extname(filename).toLowerCase()));
+  return adapter && adapter.matches(data) ? adapter.type : undefined;
+}
+
+export async function ingestFile(data: Buffer, docId: string, filename: string): Promise<IngestedDocument> {
+  const ext = extname(filename).toLowerCase();
+  const adapter = ADAPTERS.find(a => a.extensions.includes(ext));
+
+  if (!adapter) {
+    throw new Error(`Unsupported file type "${ext}" for ${docId}. Supported: ${SUPPORTED_EXTENSIONS.join(', ')}`);
+  }
+  if (!adapter.matches(data)) {
+    throw new Error(`${filename} does not look like a valid ${adapter.type} file`);
+  }
+  return adapter.ingest(data, docId, filename);
+}
@@ -1,124 +1,205 @@
-// main.ts - Express server + Gemini call
+// main.ts - Express server (the compile pipeline is in compile.ts)
 
 import express from 'express';
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { readFileSync, existsSync, writeFileSync, readdirSync } from 'fs';
-import { join, basename } from 'path';
-import { createHash } from 'crypto';
-import { SIGNAL_COMPILER_PROMPT } from './prompt';
-import { SignalPack, GeminiSignalResponse, Drop } from './types';
+import multer from 'multer';
+import { join, dirname } from 'path';
+import { randomUUID } from 'crypto';
+import { ModelProvider, ModelSelection, createProvider, DEFAULT_MODEL, DEFAULT_PROVIDER } from './providers';
+import {
+  PackConfig, PackError, UploadedFile, PACKS, UPLOADS_DIR, MAX_UPLOAD_BYTES, MAX_UPLOAD_FILES,
+  loadPacks, watchPacks, createPack, updatePack, deletePack, defaultDocId
+} from './packs';
+import { RunEvidencePack, RunFilter, listRuns, getRun, latestRun } from './runs';
+import { RunDiff, diffRuns, generateDiffMarkdown } from './diff';
+import { CompileCancelled } from './progress';
+import { loadFxTable } from './money';
+import { COVENANT_TEMPLATES, parseAnswers, calculateCovenant, saveCovenantResult } from './covenant';
+import { CheckError, loadCheckStates, updateCheck, checkedRun } from './checks';
+import { loadTemplates } from './templates';
+import { DEFAULT_PROFILE, loadProfile, listProfiles, profileTemplates } from './profiles';
+import { compileSignals } from './compile';
+import { ExportError, getExporter, availableExporters } from './exporters';
+import { buildGraph } from './graph';
+import { loadEvalHistory } from './golden';
+import { loadPackDocument, pageContent, locateQuote } from './documents';
+import { ReviewError, loadReviews, reviewItem, reviewedRun, loadAuditLog, auditCsv } from './reviews';
 
 const app = express();
 
-// Initialize Gemini
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
-
 // Serve static files
 app.use(express.static(join(__dirname, '..', 'public')));
+// pdf.js for the evidence viewer, from the same pdfjs-dist the server uses
+app.use('/vendor/pdfjs', express.static(join(dirname(require.resolve('pdfjs-dist/package.json')), 'build')));
 app.use(express.json());
 
-// Pack configurations - loaded from packs.json
-interface PackConfig {
-  id: string;
-  name: string;
-  description?: string;
-  files: { doc_id: string; filename: string }[];
-}
-
-interface PacksManifest {
-  packs: PackConfig[];
-}
+loadPacks();
+watchPacks();
 
-// Load packs from JSON file
-function loadPacks(): Record<string, PackConfig> {
-  const packsPath = join(__dirname, '..', 'packs.json');
+// Health check
+app.get('/health', (req, res) => {
+  res.json({ status: 'ok', timestamp: new Date().toISOString() });
+});
 
-  if (!existsSync(packsPath)) {
-    console.warn('[packs] packs.json not found, using empty config');
-    return {};
-  }
+// List available packs
+app.get('/packs', (req, res) => {
+  const packList = Object.entries(PACKS).map(([key, pack]) => ({
+    id: key,
+    name: pack.name,
+    description: pack.description,
+    profile: pack.profile || DEFAULT_PROFILE,
+    file_count: pack.files.length,
+    uploaded: pack.files.some(f => f.filename.startsWith(`${UPLOADS_DIR}/`))
+  }));
+  res.json(packList);
+});
 
-  try {
-    const manifest: PacksManifest = JSON.parse(readFileSync(packsPath, 'utf-8'));
-    const packs: Record<string, PackConfig> = {};
+// Multipart uploads are kept in memory until validated
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_UPLOAD_BYTES, files: MAX_UPLOAD_FILES },
+}).array('files', MAX_UPLOAD_FILES);
 
-    for (const pack of manifest.packs) {
-      packs[pack.id] = pack;
+function handleUpload(req: express.Request, res: express.Response, next: express.NextFunction) {
+  upload(req, res, (err: unknown) => {
+    if (err) {
+      return res.status(400).json({ error: err instanceof Error ? err.message : String(err) });
     }
+    next();
+  });
+}
 
-    console.log(`[packs] Loaded ${manifest.packs.length} packs from packs.json`);
-    return packs;
-  } catch (e) {
-    console.error('[packs] Failed to load packs.json:', e);
-    return {};
+// doc_ids come as repeated fields, a comma-separated list or a JSON array; one per file, in order
+function uploadedFiles(req: express.Request): UploadedFile[] {
+  const files = (req.files as Express.Multer.File[] | undefined) || [];
+  let docIds: string[] = [];
+  const raw = req.body?.doc_ids;
+
+  if (Array.isArray(raw)) {
+    docIds = raw.map(String);
+  } else if (typeof raw === 'string' && raw.trim().startsWith('[')) {
+    try { docIds = JSON.parse(raw); } catch { throw new PackError('doc_ids is not valid JSON'); }
+  } else if (typeof raw === 'string' && raw.trim()) {
+    docIds = raw.split(',').map(id => id.trim());
   }
+
+  return files.map((file, i) => ({
+    doc_id: docIds[i] || defaultDocId(file.originalname),
+    originalname: file.originalname,
+    buffer: file.buffer,
+  }));
 }
 
-const PACKS = loadPacks();
+function sendPackError(res: express.Response, error: unknown) {
+  if (error instanceof PackError) {
+    return res.status(/^Unknown (pack|document)/.test(error.message) ? 404 : 400).json({ error: error.message });
+  }
+  console.error('[packs] Failed:', error);
+  res.status(500).json({ error: 'Pack update failed', detail: error instanceof Error ? error.message : String(error) });
+}
 
-// Run Evidence Pack schema
-interface RunEvidencePack {
-  run_meta: {
-    run_id: string;
-    pack_id: string;
-    model: string;
-    config_hash: string;
-    created_at: string;
-  };
-  inputs: {
-    doc_id: string;
-    filename: string;
-    sha256: string;
-    type: string;
-    page_count?: number;
-  }[];
-  signals: any[];
-  conflicts: any[];
-  drops: any[];
-  next_checks: any[];
-  evidence: {
-    id: string;
-    doc_id: string;
-    page?: number;
-    bbox?: number[];
-    line?: number;
-    quote: string;
-  }[];
+// A profile given on upload must exist, or the pack could never compile
+function checkProfile(profile: unknown): string | undefined {
+  if (profile === undefined || profile === '') return undefined;
+  if (!loadProfile(String(profile))) {
+    throw new PackError(`Unknown profile "${profile}" (${listProfiles().map(p => p.id).join(', ')})`);
+  }
+  return String(profile);
 }
 
-// Health check
-app.get('/health', (req, res) => {
-  res.json({ status: 'ok', timestamp: new Date().toISOString() });
+// Upload a new pack: multipart with id, name, description, profile, doc_ids and files[]
+app.post('/packs', handleUpload, (req, res) => {
+  try {
+    const pack = createPack(
+      { id: req.body?.id, name: req.body?.name, description: req.body?.description, profile: checkProfile(req.body?.profile) },
+      uploadedFiles(req)
+    );
+    res.status(201).json(pack);
+  } catch (error) {
+    sendPackError(res, error);
+  }
 });
 
-// List available packs
-app.get('/packs', (req, res) => {
-  const packList = Object.entries(PACKS).map(([key, pack]) => ({
-    id: key,
-    name: pack.name,
-    file_count: pack.files.length
-  }));
-  res.json(packList);
+// Rename a pack, change its profile and/or add or replace documents
+app.put('/packs/:id', handleUpload, (req, res) => {
+  try {
+    const pack = updatePack(
+      req.params.id,
+      { name: req.body?.name, description: req.body?.description, profile: checkProfile(req.body?.profile) },
+      uploadedFiles(req)
+    );
+    res.json(pack);
+  } catch (error) {
+    sendPackError(res, error);
+  }
 });
 
-// Compile a specific pack
-app.post('/compile/:packId?', async (req, res) => {
+app.delete('/packs/:id', (req, res) => {
+  try {
+    deletePack(req.params.id);
+    res.status(204).end();
+  } catch (error) {
+    sendPackError(res, error);
+  }
+});
+
+// Pack and provider for a compile request; sends a 400 and returns undefined if either is invalid
+function compileTarget(req: express.Request, res: express.Response): { pack: PackConfig; provider: ModelProvider } | undefined {
   const packId = req.params.packId || 'agrinova_w04';
   const pack = PACKS[packId];
 
   if (!pack) {
-    return res.status(400).json({ error: 'Unknown pack', available: Object.keys(PACKS) });
+    res.status(400).json({ error: 'Unknown pack', available: Object.keys(PACKS) });
+    return undefined;
+  }
+  if (!loadProfile(pack.profile || DEFAULT_PROFILE)) {
+    res.status(400).json({ error: `Unknown profile "${pack.profile}"`, available: listProfiles().map(p => p.id) });
+    return undefined;
+  }
+
+  // Per-request override of the pack's provider/model
+  const selection: ModelSelection = {
+    provider: String(req.query.provider || req.body?.provider || pack.provider || '') || undefined,
+    model: String(req.query.model || req.body?.model || pack.model || '') || undefined,
+  };
+
+  try {
+    return { pack, provider: createProvider(selection) };
+  } catch (error) {
+    res.status(400).json({ error: error instanceof Error ? error.message : String(error) });
+    return undefined;
   }
+}
+
+// ?force=true (or "force": true in the body) skips the compile cache
+function isForced(req: express.Request): boolean {
+  return String(req.query.force ?? req.body?.force ?? '') === 'true';
+}
+
+// In-flight streaming compiles by compile ID, so they can be cancelled
+const activeCompiles = new Map<string, AbortController>();
+
+// Compile a specific pack
+app.post('/compile/:packId?', async (req, res) => {
+  const target = compileTarget(req, res);
+  if (!target) return;
+  const { pack, provider } = target;
+
+  // Stop the model call if the client goes away
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
 
   console.log(`[compile] Starting compilation for pack: ${pack.name}`);
   const startTime = Date.now();
 
   try {
-    const result = await compileSignals(pack);
+    const result = await compileSignals(pack, provider, { signal: controller.signal }, isForced(req));
     const duration = Date.now() - startTime;
     console.log(`[compile] Completed in ${duration}ms - ${result.signals.length} signals, ${result.conflicts.length} conflicts, ${result.drops.length} drops`);
     res.json(result);
   } catch (error) {
+    if (error instanceof CompileCancelled) return;
     console.error('[compile] Failed:', error);
     res.status(500).json({
       error: 'Compilation failed',
@@ -127,327 +208,354 @@ app.post('/compile/:packId?', async (req, res) => {
   }
 });
 
-// Export run as JSON (new format)
-app.get('/export/:packId', async (req, res) => {
-  const packId = req.params.packId || 'agrinova_w04';
-  const pack = PACKS[packId];
+// Same compile as Server-Sent Events: started, stage, signal (partial, unverified), result, error
+app.get('/compile/:packId/stream', async (req, res) => {
+  const target = compileTarget(req, res);
+  if (!target) return;
+  const { pack, provider } = target;
 
-  if (!pack) {
-    return res.status(400).json({ error: 'Unknown pack' });
+  const compileId = randomUUID();
+  const controller = new AbortController();
+  activeCompiles.set(compileId, controller);
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+  });
+  const send = (event: string, data: unknown) => {
+    if (!res.writableEnded) res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  console.log(`[compile] Starting streaming compilation ${compileId} for pack: ${pack.name}`);
+  send('started', { compile_id: compileId, pack_id: pack.id, provider: provider.name, model: provider.model });
+
+  try {
+    const result = await compileSignals(pack, provider, {
+      signal: controller.signal,
+      onEvent: event => send(event.type, event),
+    }, isForced(req));
+    console.log(`[compile] Completed ${compileId} - ${result.signals.length} signals, ${result.conflicts.length} conflicts, ${result.drops.length} drops`);
+    send('result', result);
+  } catch (error) {
+    const cancelled = error instanceof CompileCancelled;
+    if (!cancelled) console.error('[compile] Failed:', error);
+    send('error', {
+      error: cancelled ? 'Compilation cancelled' : 'Compilation failed',
+      detail: error instanceof Error ? error.message : String(error),
+      cancelled
+    });
+  } finally {
+    activeCompiles.delete(compileId);
+    res.end();
   }
+});
 
-  // Check for cached result
-  const cachedPath = join(__dirname, '..', `runs/${packId}_latest.json`);
-  if (existsSync(cachedPath)) {
-    const cached = JSON.parse(readFileSync(cachedPath, 'utf-8'));
-    res.setHeader('Content-Type', 'application/json');
-    res.setHeader('Content-Disposition', `attachment; filename="${packId}_run.json"`);
-    return res.json(cached);
+// Abort an in-flight streaming compile, including its model request
+app.post('/compile/:compileId/cancel', (req, res) => {
+  const controller = activeCompiles.get(req.params.compileId);
+  if (!controller) {
+    return res.status(404).json({ error: `No compile "${req.params.compileId}" in progress` });
   }
+  controller.abort();
+  res.json({ compile_id: req.params.compileId, cancelled: true });
+});
 
-  res.status(404).json({ error: 'No run found for this pack. Run /compile first.' });
+// Next-check templates the model is given, with their slot schemas (check-templates.json)
+app.get('/templates', (req, res) => {
+  res.json(loadTemplates());
 });
 
-// Export run as Markdown
-app.get('/export/:packId/md', async (req, res) => {
-  const packId = req.params.packId || 'agrinova_w04';
-  const cachedPath = join(__dirname, '..', `runs/${packId}_latest.json`);
+// Formats served at /export/:packId/:format
+app.get('/exporters', (req, res) => {
+  res.json(availableExporters());
+});
 
-  if (!existsSync(cachedPath)) {
-    return res.status(404).json({ error: 'No run found. Run /compile first.' });
-  }
+// Domain profiles a pack can select: taxonomies, severity tables and templates (profiles/)
+app.get('/profiles', (req, res) => {
+  res.json(listProfiles().map(({ example, ...profile }) => profile));
+});
 
-  const run: RunEvidencePack = JSON.parse(readFileSync(cachedPath, 'utf-8'));
-  const md = generateMarkdown(run);
+app.get('/profiles/:id', (req, res) => {
+  const profile = loadProfile(req.params.id);
+  if (!profile) return res.status(404).json({ error: 'Profile not found' });
+  res.json(profile);
+});
 
-  res.setHeader('Content-Type', 'text/markdown');
-  res.setHeader('Content-Disposition', `attachment; filename="${packId}_run.md"`);
-  res.send(md);
+// Evaluation history (npm run eval), oldest first, for charting scores across prompt versions
+app.get('/evals', (req, res) => {
+  res.json(loadEvalHistory());
 });
 
-function generateMarkdown(run: RunEvidencePack): string {
-  const criticalCount = run.signals.filter((s: any) => s.severity === 'critical').length;
-  const highCount = run.signals.filter((s: any) => s.severity === 'high').length;
-
-  let md = `# Run Report: ${run.run_meta.pack_id}\n\n`;
-  md += `**Generated:** ${run.run_meta.created_at}\n`;
-  md += `**Model:** ${run.run_meta.model}\n\n`;
-
-  md += `## Summary\n\n`;
-  md += `| Metric | Count |\n|--------|-------|\n`;
-  md += `| Critical Signals | ${criticalCount} |\n`;
-  md += `| High Signals | ${highCount} |\n`;
-  md += `| Total Signals | ${run.signals.length} |\n`;
-  md += `| Conflicts | ${run.conflicts.length} |\n`;
-  md += `| Drops | ${run.drops.length} |\n`;
-  md += `| Next Checks | ${run.next_checks.length} |\n\n`;
-
-  md += `## Inputs\n\n`;
-  for (const input of run.inputs) {
-    md += `- **${input.doc_id}**: ${input.filename} (${input.type})\n`;
-  }
-  md += `\n`;
-
-  md += `## Signals\n\n`;
-  for (const sig of run.signals) {
-    md += `### ${sig.id}: ${sig.type}\n`;
-    md += `**Severity:** ${sig.severity} | **Owner:** ${sig.owner}\n\n`;
-    md += `> ${sig.summary}\n\n`;
-    if (sig.severity_reason) {
-      md += `*Severity reason:* ${sig.severity_reason}\n\n`;
-    }
-    if (sig.evidence && sig.evidence.length > 0) {
-      md += `**Evidence:**\n`;
-      for (const ev of sig.evidence) {
-        md += `- ${ev.source} p.${ev.page || '?'}: "${ev.quote}"\n`;
-      }
-    }
-    md += `\n`;
-  }
+// List stored runs, newest first: ?pack=&model=&config_hash=&limit=
+app.get('/runs', (req, res) => {
+  const filter: RunFilter = {
+    pack: req.query.pack ? String(req.query.pack) : undefined,
+    model: req.query.model ? String(req.query.model) : undefined,
+    config_hash: req.query.config_hash ? String(req.query.config_hash) : undefined,
+    limit: req.query.limit ? Number(req.query.limit) || undefined : undefined,
+  };
+  res.json(listRuns(filter));
+});
 
-  md += `## Conflicts\n\n`;
-  for (const conf of run.conflicts) {
-    md += `### ${conf.id}: ${conf.type || conf.topic}\n`;
-    if (conf.flags && conf.flags.length) {
-      md += `**Flags:** ${conf.flags.join(', ')}\n\n`;
-    }
-    md += `**Claims:**\n`;
-    for (const claim of conf.claims || conf.contenders || []) {
-      md += `- ${claim.source}: ${claim.value} (${claim.definition || 'unknown'}, ${claim.value_date || 'no date'})\n`;
-    }
-    md += `\n**Resolution:** ${conf.how_to_resolve || conf.resolution}\n\n`;
+app.get('/runs/:runId', (req, res) => {
+  const run = getRun(req.params.runId);
+  if (!run) {
+    return res.status(404).json({ error: `Run "${req.params.runId}" not found` });
   }
+  res.json(checkedRun(run));
+});
 
-  md += `## Drops\n\n`;
-  for (const drop of run.drops) {
-    md += `- **${drop.id}** (${drop.reason}): ${drop.what}\n`;
-    md += `  - Would fix: ${drop.would_fix}\n`;
+// Dependency graph of a run: signals, conflicts and next checks with blocks/resolves/after edges, the check order and issues
+app.get('/runs/:runId/graph', (req, res) => {
+  const run = getRun(req.params.runId);
+  if (!run) {
+    return res.status(404).json({ error: `Run "${req.params.runId}" not found` });
   }
-  md += `\n`;
+  // The templates of the profile the run was compiled with, as in compile.ts
+  const profileId = run.run_meta.profile || PACKS[run.run_meta.pack_id]?.profile || DEFAULT_PROFILE;
+  const profile = loadProfile(profileId);
+  if (!profile) console.warn(`[graph] Unknown profile "${profileId}" for run ${run.run_meta.run_id} - using every template`);
+  const templates = profile ? profileTemplates(profile, loadTemplates()) : loadTemplates();
+  res.json({ run_id: run.run_meta.run_id, ...buildGraph(checkedRun(run), templates, run.dangling_refs) });
+});
 
-  md += `## Next Checks\n\n`;
-  for (const check of run.next_checks) {
-    md += `### ${check.priority}. ${check.template || 'check'}\n`;
-    md += `**Owner:** ${check.owner}\n\n`;
-    md += `> ${check.question}\n\n`;
-    md += `**Done when:** ${check.done_when}\n`;
-    if (check.slots) {
-      md += `\n**Slots:** \`${JSON.stringify(check.slots)}\`\n`;
-    }
-    md += `\n`;
+// Execute the run's cash checks with the user's answers ({ "answers": {...} } or "restricted counts: no" as text)
+app.post('/runs/:runId/covenant', express.text(), (req, res) => {
+  const run = getRun(req.params.runId);
+  if (!run) {
+    return res.status(404).json({ error: `Run "${req.params.runId}" not found` });
+  }
+  if (!run.next_checks.some((check: any) => COVENANT_TEMPLATES.includes(check.template))) {
+    return res.status(400).json({ error: `Run has no ${COVENANT_TEMPLATES.join(', ')} checks` });
   }
 
-  return md;
-}
+  const answers = parseAnswers(typeof req.body === 'string' ? req.body : req.body?.answers ?? req.body);
+  const covenant = calculateCovenant(run, answers, loadFxTable());
+  saveCovenantResult(run, covenant);
+  res.json({ covenant, next_checks: checkedRun(run).next_checks });
+});
 
-async function compileSignals(packConfig: PackConfig): Promise<SignalPack> {
-  const cachedPath = join(__dirname, '..', `runs/${packConfig.id}_latest.json`);
-  const TIMEOUT_MS = 90000; // 90 seconds for larger packs
+// One page of a pack document for the evidence viewer: a single-page PDF, or the image. :docId may be a source name.
+app.get('/packs/:id/docs/:docId/pages/:page', async (req, res) => {
+  const pack = PACKS[req.params.id];
+  if (!pack) return res.status(404).json({ error: `Unknown pack "${req.params.id}"` });
 
   try {
-    const result = await Promise.race([
-      liveCompile(packConfig),
-      new Promise<never>((_, reject) =>
-        setTimeout(() => reject(new Error('Gemini timeout')), TIMEOUT_MS)
-      )
-    ]);
-
-    // Save as run evidence pack
-    try {
-      const fs = await import('fs');
-      const runsDir = join(__dirname, '..', 'runs');
-      if (!existsSync(runsDir)) {
-        fs.mkdirSync(runsDir, { recursive: true });
-      }
-      fs.writeFileSync(cachedPath, JSON.stringify(result._runPack, null, 2));
-      console.log(`[compile] Run saved to ${cachedPath}`);
-    } catch (e) {
-      console.warn('[compile] Failed to save run:', e);
-    }
-
-    return result;
+    const page = await pageContent(loadPackDocument(pack, req.params.docId), Number(req.params.page));
+    res.setHeader('Content-Type', page.contentType);
+    res.send(page.data);
   } catch (error) {
-    console.warn('[compile] Live compilation failed, checking cache...', error);
-
-    if (existsSync(cachedPath)) {
-      console.log('[compile] Using cached result');
-      const cached = JSON.parse(readFileSync(cachedPath, 'utf-8'));
-      return {
-        case_id: packConfig.id,
-        processed_at: cached.run_meta?.created_at || new Date().toISOString(),
-        signals: cached.signals || [],
-        conflicts: cached.conflicts || [],
-        drops: cached.drops || [],
-        next_checks: cached.next_checks || [],
-        _cached: true
-      };
-    }
-
-    throw error;
+    sendPackError(res, error);
   }
-}
+});
+
+// Boxes of a quote on a PDF page: ?quote=
+app.get('/packs/:id/docs/:docId/pages/:page/locate', async (req, res) => {
+  const pack = PACKS[req.params.id];
+  if (!pack) return res.status(404).json({ error: `Unknown pack "${req.params.id}"` });
+  if (!req.query.quote) return res.status(400).json({ error: 'quote is required' });
 
-async function liveCompile(packConfig: PackConfig): Promise<SignalPack & { _runPack: RunEvidencePack }> {
-  const projectRoot = join(__dirname, '..');
+  try {
+    res.json(await locateQuote(loadPackDocument(pack, req.params.docId), Number(req.params.page), String(req.query.quote)));
+  } catch (error) {
+    sendPackError(res, error);
+  }
+});
 
-  // Build inputs metadata
-  const inputs: RunEvidencePack['inputs'] = [];
-  const parts: any[] = [{ text: SIGNAL_COMPILER_PROMPT }];
+// Recorded check states of a pack, by check ID
+app.get('/packs/:id/checks', (req, res) => {
+  if (!PACKS[req.params.id]) {
+    return res.status(404).json({ error: `Unknown pack "${req.params.id}"` });
+  }
+  res.json(loadCheckStates(req.params.id));
+});
 
-  for (const file of packConfig.files) {
-    // Path is relative to project root (as defined in packs.json)
-    const filePath = join(projectRoot, file.filename);
+// Set status/assignee/answer on a check and attach supporting files (multipart "files", or JSON)
+app.patch('/runs/:runId/checks/:checkId', handleUpload, (req, res) => {
+  const run = getRun(req.params.runId);
+  if (!run) {
+    return res.status(404).json({ error: `Run "${req.params.runId}" not found` });
+  }
 
-    if (!existsSync(filePath)) {
-      console.warn(`[compile] File not found: ${file.filename}`);
-      continue;
+  try {
+    const { check } = updateCheck(
+      run,
+      req.params.checkId,
+      { status: req.body?.status, assignee: req.body?.assignee, answer: req.body?.answer },
+      uploadedFiles(req)
+    );
+    res.json(check);
+  } catch (error) {
+    if (error instanceof CheckError || error instanceof PackError) {
+      return res.status(error.message.startsWith('Unknown next check') ? 404 : 400).json({ error: error.message });
     }
+    console.error('[checks] Update failed:', error);
+    res.status(500).json({ error: 'Check update failed', detail: error instanceof Error ? error.message : String(error) });
+  }
+});
 
-    console.log(`[compile] Loading: ${file.doc_id}`);
-    const data = readFileSync(filePath);
-    const sha256 = createHash('sha256').update(data).digest('hex');
+// Review states of a run's items, by item ID (items without one are pending)
+app.get('/runs/:runId/reviews', (req, res) => {
+  const run = getRun(req.params.runId);
+  if (!run) {
+    return res.status(404).json({ error: `Run "${req.params.runId}" not found` });
+  }
+  res.json(loadReviews(run));
+});
 
-    inputs.push({
-      doc_id: file.doc_id,
-      filename: file.filename,
-      sha256,
-      type: 'pdf'
-    });
+// Accept, reject or edit a signal, conflict, drop or next check: { status, reviewer, comment, edits: { field: value } }.
+// The reviewer may also come from the X-Reviewer header.
+app.patch('/runs/:runId/reviews/:itemId', (req, res) => {
+  const run = getRun(req.params.runId);
+  if (!run) {
+    return res.status(404).json({ error: `Run "${req.params.runId}" not found` });
+  }
 
-    parts.push({ text: `\n\n--- Document: ${file.doc_id} (${file.filename}) ---\n` });
-    parts.push({
-      inlineData: {
-        mimeType: 'application/pdf',
-        data: data.toString('base64'),
-      },
+  try {
+    const review = reviewItem(run, req.params.itemId, {
+      status: req.body?.status,
+      reviewer: req.body?.reviewer || req.get('X-Reviewer'),
+      comment: req.body?.comment,
+      edits: req.body?.edits,
     });
+    const reviewed = reviewedRun(checkedRun(run));
+    const item = [...reviewed.signals, ...reviewed.conflicts, ...reviewed.drops, ...reviewed.next_checks]
+      .find((i: any) => i.id === req.params.itemId);
+    res.json({ review, item });
+  } catch (error) {
+    if (error instanceof ReviewError) {
+      return res.status(error.message.startsWith('Unknown item') ? 404 : 400).json({ error: error.message });
+    }
+    console.error('[reviews] Review failed:', error);
+    res.status(500).json({ error: 'Review failed', detail: error instanceof Error ? error.message : String(error) });
   }
+});
 
-  if (parts.length < 3) {
-    throw new Error('No artifacts found for this pack.');
+// Who changed what, oldest first: ?run=<run id> for one run. Also served for deleted packs that still have runs.
+function auditEntries(req: express.Request, res: express.Response) {
+  if (!PACKS[req.params.id] && !listRuns({ pack: req.params.id, limit: 1 }).length) {
+    res.status(404).json({ error: `Unknown pack "${req.params.id}"` });
+    return undefined;
   }
+  return loadAuditLog(req.params.id, req.query.run ? String(req.query.run) : undefined);
+}
 
-  console.log(`[compile] Sending ${parts.length} parts to Gemini...`);
+app.get('/packs/:id/audit', (req, res) => {
+  const entries = auditEntries(req, res);
+  if (!entries) return;
 
-  const model = genAI.getGenerativeModel({
-    model: 'gemini-3-flash-preview',
-    generationConfig: {
-      temperature: 0.1,
-      responseMimeType: 'application/json',
-    },
-  });
+  res.setHeader('Content-Disposition', `attachment; filename="audit_${req.params.id}.json"`);
+  res.json(entries);
+});
 
-  const result = await model.generateContent(parts);
-  const response = result.response;
-  const text = response.text();
+app.get('/packs/:id/audit/csv', (req, res) => {
+  const entries = auditEntries(req, res);
+  if (!entries) return;
 
-  console.log(`[compile] Received response (${text.length} chars)`);
+  res.setHeader('Content-Type', 'text/csv');
+  res.setHeader('Content-Disposition', `attachment; filename="audit_${req.params.id}.csv"`);
+  res.send(auditCsv(entries));
+});
 
-  let parsed: GeminiSignalResponse;
-  try {
-    parsed = JSON.parse(text);
-  } catch (e) {
-    console.error('[compile] Failed to parse Gemini response:', text.slice(0, 500));
-    throw new Error('Invalid JSON from Gemini');
-  }
-
-  const verified = verifyEvidence(parsed);
-  const now = new Date().toISOString();
-
-  // Build run evidence pack
-  const runPack: RunEvidencePack = {
-    run_meta: {
-      run_id: `${now}_${packConfig.id}`,
-      pack_id: packConfig.id,
-      model: 'gemini-3-flash-preview',
-      config_hash: createHash('md5').update(SIGNAL_COMPILER_PROMPT).digest('hex').slice(0, 8),
-      created_at: now
-    },
-    inputs,
-    signals: verified.signals,
-    conflicts: verified.conflicts,
-    drops: verified.drops,
-    next_checks: verified.next_checks,
-    evidence: extractEvidenceSpans(verified)
-  };
+// Both runs must exist and belong to the same pack; run A is the baseline
+function diffedRuns(req: express.Request, res: express.Response): RunDiff | undefined {
+  const runA = getRun(req.params.runA);
+  const runB = getRun(req.params.runB);
+  const missing = !runA ? req.params.runA : !runB ? req.params.runB : undefined;
 
-  return {
-    case_id: packConfig.id,
-    processed_at: now,
-    ...verified,
-    _runPack: runPack
-  };
+  if (missing) {
+    res.status(404).json({ error: `Run "${missing}" not found` });
+    return undefined;
+  }
+  if (runA!.run_meta.pack_id !== runB!.run_meta.pack_id) {
+    res.status(400).json({ error: `Runs belong to different packs (${runA!.run_meta.pack_id}, ${runB!.run_meta.pack_id})` });
+    return undefined;
+  }
+  return diffRuns(runA!, runB!);
 }
 
-function extractEvidenceSpans(pack: Omit<SignalPack, 'case_id' | 'processed_at' | '_cached'>): RunEvidencePack['evidence'] {
-  const evidence: RunEvidencePack['evidence'] = [];
-  let evId = 1;
-
-  for (const sig of pack.signals) {
-    if (sig.evidence) {
-      for (const ev of sig.evidence) {
-        evidence.push({
-          id: `ev_${evId++}`,
-          doc_id: ev.source.replace('.pdf', ''),
-          page: ev.page,
-          bbox: ev.bbox,
-          line: ev.line,
-          quote: ev.quote
-        });
-      }
-    }
-  }
+app.get('/diff/:runA/:runB', (req, res) => {
+  const diff = diffedRuns(req, res);
+  if (diff) res.json(diff);
+});
 
-  for (const conf of pack.conflicts) {
-    if (conf.claims) {
-      for (const claim of conf.claims) {
-        if (claim.quote) {
-          evidence.push({
-            id: `ev_${evId++}`,
-            doc_id: claim.source?.replace('.pdf', '') || 'unknown',
-            page: claim.page,
-            quote: claim.quote
-          });
-        }
-      }
-    }
-  }
+app.get('/diff/:runA/:runB/md', (req, res) => {
+  const diff = diffedRuns(req, res);
+  if (!diff) return;
+
+  res.setHeader('Content-Type', 'text/markdown');
+  res.setHeader('Content-Disposition', `attachment; filename="diff_${diff.run_a.run_id}_${diff.run_b.run_id}.md"`);
+  res.send(generateDiffMarkdown(diff));
+});
 
-  return evidence;
+// Exports carry the check states and the reviews (edits applied, originals kept under review.original);
+// ?approved=1 leaves out pending and rejected items
+function exportedRun(req: express.Request, res: express.Response): RunEvidencePack | undefined {
+  const run = storedRun(req, res);
+  const approved = String(req.query.approved || '');
+  return run && reviewedRun(checkedRun(run), approved !== '' && approved !== '0' && approved !== 'false');
 }
 
-function verifyEvidence(pack: GeminiSignalResponse): Omit<SignalPack, 'case_id' | 'processed_at' | '_cached'> {
-  const signals = pack.signals || [];
-  const drops: Drop[] = pack.drops || [];
-  const conflicts = pack.conflicts || [];
-  const next_checks = pack.next_checks || [];
-
-  const validSignals = [];
-  for (const signal of signals) {
-    if (!signal.evidence || signal.evidence.length === 0) {
-      console.warn(`[verify] Signal ${signal.id} has no evidence - moving to drops`);
-      drops.push({
-        id: `D_${signal.id}`,
-        what: signal.summary,
-        reason: 'MISSING_EVIDENCE',
-        detail: 'Signal extracted but no evidence quote provided',
-        would_fix: 'Manual review required',
-      });
-    } else {
-      validSignals.push(signal);
+// The run an export refers to: ?run=<run id>, or the pack's latest run
+function storedRun(req: express.Request, res: express.Response): RunEvidencePack | undefined {
+  const packId = req.params.packId || 'agrinova_w04';
+  const runId = req.query.run ? String(req.query.run) : undefined;
+
+  if (runId) {
+    const run = getRun(runId);
+    if (!run || run.run_meta.pack_id !== packId) {
+      res.status(404).json({ error: `Run "${runId}" not found for pack ${packId}` });
+      return undefined;
     }
+    return run;
   }
 
-  console.log(`[verify] ${validSignals.length} signals verified, ${drops.length} drops, ${conflicts.length} conflicts`);
-
-  return {
-    signals: validSignals,
-    drops,
-    conflicts,
-    next_checks,
-  };
+  const run = latestRun(packId);
+  if (!run) {
+    res.status(404).json({ error: 'No run found for this pack. Run /compile first.' });
+  }
+  return run;
 }
 
+const exportName = (run: RunEvidencePack) => `${run.run_meta.run_id}${run.approved_only ? '_approved' : ''}`;
+
+// Export run as JSON (new format)
+app.get('/export/:packId', async (req, res) => {
+  const run = exportedRun(req, res);
+  if (!run) return;
+
+  res.setHeader('Content-Type', 'application/json');
+  res.setHeader('Content-Disposition', `attachment; filename="${exportName(run)}.json"`);
+  res.json(run);
+});
+
+// Export run in any registered format (md, html, csv, sarif, ... - see exporters.ts)
+app.get('/export/:packId/:format', (req, res) => {
+  const exporter = getExporter(req.params.format);
+  if (!exporter) {
+    return res.status(404).json({ error: `Unknown export format "${req.params.format}"`, available: availableExporters().map(e => e.format) });
+  }
+  const run = exportedRun(req, res);
+  if (!run) return;
+
+  try {
+    const options = { table: req.query.table ? String(req.query.table) : undefined };
+    const body = exporter.render(run, options);
+    const filename = `${exportName(run)}${exporter.suffix?.(options) || ''}${exporter.extension}`;
+    res.setHeader('Content-Type', exporter.contentType);
+    res.setHeader('Content-Disposition', `${exporter.inline ? 'inline' : 'attachment'}; filename="${filename}"`);
+    res.send(body);
+  } catch (error) {
+    if (!(error instanceof ExportError)) throw error;
+    res.status(400).json({ error: error.message });
+  }
+});
+
 // Start server
 const PORT = process.env.PORT || 3000;
 app.listen(PORT, () => {
@@ -457,9 +565,28 @@ app.listen(PORT, () => {
 ║  Running at http://localhost:${PORT}                       ║
 ║                                                            ║
 ║  GET  /packs              - List available packs           ║
+║  POST /packs              - Upload a new pack (multipart)  ║
+║  PUT  /packs/:id          - Update a pack                  ║
+║  DELETE /packs/:id        - Delete a pack                  ║
+║  GET  /packs/:id/checks   - Recorded next-check states     ║
+║  GET  /packs/:id/docs/:doc/pages/:n - Document page        ║
 ║  POST /compile/:packId    - Compile signals from pack      ║
-║  GET  /export/:packId     - Export run as JSON             ║
-║  GET  /export/:packId/md  - Export run as Markdown         ║
+║  GET  /compile/:packId/stream - Compile with SSE progress  ║
+║  POST /compile/:id/cancel - Cancel a streaming compile     ║
+║  GET  /templates          - Next-check template registry   ║
+║  GET  /profiles           - Domain profiles (/:id for one) ║
+║  GET  /evals              - Evaluation history             ║
+║  GET  /runs               - List stored runs               ║
+║  GET  /runs/:runId        - Get a stored run               ║
+║  GET  /runs/:id/graph     - Dependency graph and order     ║
+║  POST /runs/:id/covenant  - Run the covenant calculator    ║
+║  PATCH /runs/:id/checks/:cid - Update a next check         ║
+║  PATCH /runs/:id/reviews/:item - Review an item            ║
+║  GET  /packs/:id/audit    - Review audit log (/csv)        ║
+║  GET  /diff/:runA/:runB   - Diff two runs (/md for MD)     ║
+║  GET  /export/:packId     - Export run as JSON (?run=)     ║
+║  GET  /export/:packId/:format - md, html, csv, sarif       ║
+║  GET  /exporters          - Available export formats       ║
 ║  GET  /health             - Health check                   ║
 ╚════════════════════════════════════════════════════════════╝
   `);
@@ -469,7 +596,9 @@ app.listen(PORT, () => {
     console.log(`  - ${id}: ${pack.name} (${pack.files.length} files)`);
   }
 
-  if (!process.env.GEMINI_API_KEY) {
+  console.log(`Default model: ${DEFAULT_PROVIDER}:${DEFAULT_MODEL}`);
+
+  if (!process.env.GEMINI_API_KEY && DEFAULT_PROVIDER !== 'replay') {
     console.warn('\n⚠️  GEMINI_API_KEY not set. Set it with: export GEMINI_API_KEY=your_key');
   }
 });
@@ -0,0 +1,153 @@
+// mapreduce.ts - Per-document / per-page-range extraction and the merge stage that reassembles one response
+
+import { GeminiSignalResponse, Signal, Conflict, ConflictClaim, Drop, NextCheck, Severity } from './types';
+import { similarity, tokenize } from './grounding';
+import { idRewriter } from './ids';
+
+export const EXTRACTION_MODES = [
+  'single',          // Whole pack in one model call (default)
+  'per_document',    // One call per document, then merge
+  'page_range',      // Like per_document, with PDFs split into chunk_pages-page ranges
+] as const;
+export type ExtractionMode = typeof EXTRACTION_MODES[number];
+
+export const DEFAULT_CHUNK_PAGES = 20;
+
+// One map-stage result
+export interface PartResponse {
+  label: string;          // e.g. "board-book pages 21-40"
+  page_offset: number;    // Added to cited pages: the model numbers pages within its part
+  response: GeminiSignalResponse;
+}
+
+// Signals of the same type closer than this are the same finding seen in two parts
+const SAME_SIGNAL_SCORE = 0.5;
+// Conflict candidates of the same type whose topics overlap this much are one conflict
+const SAME_TOPIC_SCORE = 0.3;
+const SAME_ITEM_SCORE = 0.8;
+
+const SEVERITY_RANK: Record<Severity, number> = { critical: 0, high: 1, medium: 2, low: 3 };
+
+function shiftPages<T extends { page?: number }>(items: T[], offset: number): T[] {
+  return offset ? items.map(item => (item.page !== undefined ? { ...item, page: item.page + offset } : item)) : items;
+}
+
+const quoteKey = (source: string | undefined, quote: string | undefined) =>
+  `${(source || '').toLowerCase()}|${tokenize(quote || '').join(' ')}`;
+
+function mergeSignals(parts: PartResponse[]): { signals: Signal[]; idMaps: Record<string, string>[] } {
+  const merged: Signal[] = [];
+  const idMaps: Record<string, string>[] = parts.map(() => ({}));
+  const quotes = (s: Signal) => s.evidence.map(ev => ev.quote).join(' ');
+
+  parts.forEach((part, p) => {
+    for (const signal of part.response.signals || []) {
+      const evidence = shiftPages(signal.evidence || [], part.page_offset);
+      const same = merged.find(m =>
+        m.type === signal.type &&
+        Math.max(similarity(quotes(m), quotes(signal)), similarity(m.summary, signal.summary)) >= SAME_SIGNAL_SCORE
+      );
+
+      if (!same) {
+        const id = `S${merged.length + 1}`;
+        merged.push({ ...signal, id, evidence: [...evidence], blocker_for: [] });
+        idMaps[p][signal.id] = id;
+        continue;
+      }
+
+      idMaps[p][signal.id] = same.id;
+      const seen = new Set(same.evidence.map(ev => quoteKey(ev.source, ev.quote)));
+      same.evidence.push(...evidence.filter(ev => !seen.has(quoteKey(ev.source, ev.quote))));
+      if (SEVERITY_RANK[signal.severity] < SEVERITY_RANK[same.severity]) {
+        same.severity = signal.severity;
+        same.severity_reason = signal.severity_reason;
+      }
+    }
+  });
+
+  // blocker_for links are local to a part; references to nothing keep the part label so they are reported as dangling
+  parts.forEach((part, p) => {
+    const rewrite = idRewriter(idMaps[p]);
+    for (const signal of part.response.signals || []) {
+      const target = merged.find(m => m.id === idMaps[p][signal.id])!;
+      for (const ref of signal.blocker_for || []) {
+        const id = idMaps[p][ref] || `${part.label}:${ref}`;
+        if (id !== target.id && !target.blocker_for!.includes(id)) target.blocker_for!.push(id);
+      }
+      if (target.recommended_check === signal.recommended_check) {
+        target.recommended_check = rewrite(signal.recommended_check || '');
+      }
+    }
+  });
+
+  return {
+    signals: merged.map(s => (s.blocker_for!.length ? s : { ...s, blocker_for: undefined })),
+    idMaps,
+  };
+}
+
+// Candidates from all parts, grouped by type and topic; kept only where the claims actually disagree
+function mergeConflicts(parts: PartResponse[], idMaps: Record<string, string>[]): Conflict[] {
+  const groups: Conflict[] = [];
+
+  parts.forEach((part, p) => {
+    const rewrite = idRewriter(idMaps[p]);
+    for (const conflict of part.response.conflicts || []) {
+      const claims = shiftPages(conflict.claims || [], part.page_offset);
+      const group = groups.find(g => g.type === conflict.type && similarity(g.topic, conflict.topic) >= SAME_TOPIC_SCORE);
+
+      if (!group) {
+        groups.push({ ...conflict, claims: [...claims], how_to_resolve: rewrite(conflict.how_to_resolve || '') });
+        continue;
+      }
+
+      const seen = new Set(group.claims.map(cl => quoteKey(cl.source, cl.quote)));
+      group.claims.push(...claims.filter(cl => !seen.has(quoteKey(cl.source, cl.quote))));
+      const flags = [...new Set([...(group.flags || []), ...(conflict.flags || [])])];
+      if (flags.length) group.flags = flags;
+      if (!group.how_to_resolve) group.how_to_resolve = rewrite(conflict.how_to_resolve || '');
+    }
+  });
+
+  const disagree = (claims: ConflictClaim[]) =>
+    new Set(claims.map(cl => `${tokenize(cl.value).join(' ')}|${cl.definition || ''}`)).size >= 2;
+
+  const conflicts = groups.filter(g => g.claims.length >= 2 && disagree(g.claims));
+  console.log(`[merge] ${groups.length} conflict candidates -> ${conflicts.length} conflicts`);
+  return conflicts.map((c, i) => ({ ...c, id: `C${i + 1}` }));
+}
+
+function dedupe<T>(items: T[], same: (a: T, b: T) => boolean): T[] {
+  const kept: T[] = [];
+  for (const item of items) {
+    if (!kept.some(k => same(k, item))) kept.push(item);
+  }
+  return kept;
+}
+
+const slotText = (slots: NextCheck['slots']) => Object.entries(slots || {}).map(([k, v]) => `${k} ${v}`).join(' ');
+
+// Reduce stage: one response with the same shape as a single-call extraction
+export function mergeResponses(parts: PartResponse[]): GeminiSignalResponse {
+  const { signals, idMaps } = mergeSignals(parts);
+  const conflicts = mergeConflicts(parts, idMaps);
+
+  const drops = dedupe<Drop>(
+    parts.flatMap(part => part.response.drops || []),
+    (a, b) => a.reason === b.reason && similarity(a.what, b.what) >= SAME_ITEM_SCORE
+  ).map((drop, i) => ({ ...drop, id: `D${i + 1}` }));
+
+  // Most urgent first across parts, then renumbered
+  const next_checks = dedupe<NextCheck & { part: number }>(
+    parts.flatMap((part, p) => (part.response.next_checks || []).map(check => {
+      const rewrite = idRewriter(idMaps[p]);
+      return { ...check, question: rewrite(check.question || ''), done_when: rewrite(check.done_when || ''), part: p };
+    })),
+    (a, b) => a.template === b.template && similarity(slotText(a.slots), slotText(b.slots)) >= SAME_ITEM_SCORE
+  )
+    .sort((a, b) => a.priority - b.priority || a.part - b.part)
+    .map(({ part, ...check }, i) => ({ ...check, priority: i + 1 }));
+
+  console.log(`[merge] ${parts.length} parts -> ${signals.length} signals, ${conflicts.length} conflicts, ${drops.length} drops, ${next_checks.length} next checks`);
+  return { signals, conflicts, drops, next_checks };
+}
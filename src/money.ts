@@ -0,0 +1,143 @@
+// money.ts - Structured MoneyValues from free-text values, converted to the reporting currency as of their value date
+
+import { readFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { Signal, Conflict, MoneyValue, ReportingAmount, CashDefinition, CASH_DEFINITIONS } from './types';
+import { Quantity, parseQuantities, sameQuantity, currencyOf } from './numbers';
+import { PROJECT_ROOT } from './packs';
+
+export const DEFAULT_REPORTING_CURRENCY = 'USD';
+
+const FX_PATH = join(PROJECT_ROOT, 'fx-rates.json');
+
+// Local, versioned rate table (fx-rates.json). Rates are units of `base` per one unit of each currency.
+export interface FxTable {
+  version: string;
+  base: string;
+  rates: Record<string, Record<string, number>>;   // ISO date -> currency -> rate
+}
+
+const isMoney = (q: Quantity) => !!q.unit && q.unit !== 'hours' && q.unit !== 'percent';
+
+// Read on every compile so a new table version applies without a restart
+export function loadFxTable(): FxTable | undefined {
+  if (!existsSync(FX_PATH)) {
+    console.warn('[money] fx-rates.json not found - amounts will not be converted');
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(readFileSync(FX_PATH, 'utf-8'));
+  } catch (e) {
+    console.error('[money] Failed to load fx-rates.json:', e);
+    return undefined;
+  }
+}
+
+// Base units per unit of `currency`, from the latest table date on or before `valueDate` (latest overall if undated)
+function baseRate(table: FxTable, currency: string, valueDate?: string): { rate: number; date: string } | undefined {
+  if (currency === table.base) return { rate: 1, date: '' };
+
+  const dates = Object.keys(table.rates)
+    .filter(date => table.rates[date][currency] !== undefined && (!valueDate || date <= valueDate))
+    .sort();
+  const date = dates[dates.length - 1];
+  return date ? { rate: table.rates[date][currency], date } : undefined;
+}
+
+// Undefined when the table has no rate on or before the value date for either currency
+export function toReporting(money: MoneyValue, table: FxTable, reporting: string): ReportingAmount | undefined {
+  const valueDate = money.value_date?.slice(0, 10);
+  const from = baseRate(table, money.currency, valueDate);
+  const to = baseRate(table, reporting, valueDate);
+  if (!from || !to) return undefined;
+
+  const rate = money.currency === reporting ? 1 : from.rate / to.rate;
+  return {
+    amount: Math.round(money.amount * rate * 100) / 100,
+    currency: reporting,
+    rate,
+    rate_date: [from.date, to.date].sort().pop() || valueDate || '',
+    fx_version: table.version,
+  };
+}
+
+// First amount in `text` with a currency. A bare number takes `currency` when it is known, otherwise it borrows
+// the currency of the same amount in a quote.
+export function parseMoney(
+  text: string,
+  quotes: string[] = [],
+  definition?: string,
+  valueDate?: string,
+  currency?: string
+): MoneyValue | undefined {
+  const quantities = parseQuantities(text);
+  let amount = quantities.find(isMoney);
+
+  if (!amount && quantities.length > 0 && !quantities[0].unit && currency) {
+    amount = { ...quantities[0], unit: currency };
+  } else if (!amount && quantities.length > 0 && !quantities[0].unit) {
+    const quoted = quotes.flatMap(q => parseQuantities(q || '')).find(q => isMoney(q) && sameQuantity(quantities[0], q));
+    if (quoted) amount = { ...quantities[0], unit: quoted.unit };
+  }
+  if (!amount) return undefined;
+
+  const known = (CASH_DEFINITIONS as readonly string[]).includes(definition?.toLowerCase() || '');
+  return {
+    amount: amount.amount,
+    currency: amount.unit!,
+    definition: (known ? definition!.toLowerCase() : 'unknown') as CashDefinition,
+    ...(valueDate ? { value_date: valueDate } : {}),
+  };
+}
+
+// " (≈ 20,801.96 USD)" when the amount was converted from another currency
+export function formatReporting(money: MoneyValue | undefined): string {
+  const r = money?.reporting;
+  if (!r || r.currency === money!.currency) return '';
+  return ` (≈ ${r.amount.toLocaleString('en-US', { maximumFractionDigits: 2 })} ${r.currency})`;
+}
+
+// Attach a MoneyValue to every signal value, evidence quote and conflict claim that states an amount
+export function attachMoney(
+  signals: Signal[],
+  conflicts: Conflict[],
+  table: FxTable | undefined,
+  reporting: string = DEFAULT_REPORTING_CURRENCY
+): { signals: Signal[]; conflicts: Conflict[] } {
+  let parsed = 0;
+  let converted = 0;
+  const unconverted = new Set<string>();
+
+  const withReporting = (money: MoneyValue | undefined): MoneyValue | undefined => {
+    if (!money) return undefined;
+    parsed++;
+    const amount = table ? toReporting(money, table, reporting) : undefined;
+    if (!amount) {
+      unconverted.add(`${money.currency}@${money.value_date || 'latest'}`);
+      return money;
+    }
+    converted++;
+    return { ...money, reporting: amount };
+  };
+  const set = <T extends object>(item: T, money: MoneyValue | undefined): T => (money ? { ...item, money } : item);
+
+  const moneySignals = signals.map(signal => {
+    const quotes = signal.evidence.map(ev => ev.quote);
+    const evidence = signal.evidence.map(ev => set(ev, withReporting(parseMoney(ev.quote))));
+    const value = signal.value !== undefined && signal.value !== null ? String(signal.value) : '';
+    return set({ ...signal, evidence }, withReporting(parseMoney(value, quotes, undefined, undefined, currencyOf(signal.unit))));
+  });
+
+  const moneyConflicts = conflicts.map(conflict => ({
+    ...conflict,
+    claims: (conflict.claims || []).map(claim =>
+      set(claim, withReporting(parseMoney(claim.value, [claim.quote], claim.definition, claim.value_date)))
+    ),
+  }));
+
+  console.log(`[money] ${parsed} amounts parsed, ${converted} converted to ${reporting}${table ? ` (fx ${table.version})` : ''}`);
+  if (unconverted.size > 0) console.warn(`[money] No rate for ${[...unconverted].join(', ')}`);
+
+  return { signals: moneySignals, conflicts: moneyConflicts };
+}
@@ -0,0 +1,247 @@
+// numbers.ts - Parse numbers out of values and quotes, enforce "NO INVENTED NUMBERS"
+
+import { Signal, Conflict, ConflictClaim, Drop } from './types';
+
+// A number as written in text, normalized to a comparable amount
+export interface Quantity {
+  amount: number;   // After multipliers (k/m/bn) and duration conversion (hours)
+  step: number;     // Precision as written, e.g. "62.1k" -> 100, "48" -> 1
+  unit?: string;    // ISO currency code, 'hours' or 'percent'
+}
+
+// A value the model reported that does not appear in its own quote
+export interface ValueIssue {
+  target: string;          // Signal ID or "<conflict id>.claims[<n>]"
+  value: string;
+  quotes: string[];
+  action: 'flagged' | 'dropped';
+  reason: string;
+}
+
+const CURRENCY_SYMBOLS: Record<string, string> = { '$': 'USD', '€': 'EUR', '£': 'GBP', '¥': 'JPY' };
+const CURRENCY_CODES = ['USD', 'EUR', 'GBP', 'CHF', 'JPY', 'CNY', 'RUB', 'UZS', 'KZT', 'TRY', 'AED'];
+
+const MULTIPLIERS: Record<string, number> = {
+  k: 1e3, thousand: 1e3,
+  m: 1e6, mn: 1e6, mm: 1e6, million: 1e6,
+  b: 1e9, bn: 1e9, billion: 1e9,
+};
+
+// Durations are compared in hours so "48 hours" == "2 days"
+const DURATION_HOURS: Record<string, number> = {
+  h: 1, hr: 1, hrs: 1, hour: 1, hours: 1,
+  d: 24, day: 24, days: 24,
+  wk: 168, week: 168, weeks: 168,
+};
+
+// Thousands may be grouped with commas, dots (1.234,56), apostrophes (1'234.56), non-breaking spaces or, next to a
+// currency, plain spaces (1 234,56 €). A single dot group ("1.234") is a decimal point unless a currency is
+// written with it ("EUR 1.234").
+const EUROPEAN = /^\d{1,3}(?:[. \u00a0\u202f']\d{3})+,\d+$/;
+const DOT_GROUPED = /^\d{1,3}(?:\.\d{3}){2,}$/;
+const SINGLE_DOT_GROUP = /^\d{1,3}\.\d{3}$/;
+const SPACE_GROUPED = `\\d{1,3}(?: \\d{3})+(?:[.,]\\d+)?`;       // 1 234,56 / 20 200
+const NUMBER_FORMATS = [
+  `\\d{1,3}(?:[.\u00a0\u202f']\\d{3})+,\\d+`,             // 1.234,56
+  `\\d{1,3}(?:\\.\\d{3}){2,}`,                            // 1.234.567
+  `\\d{1,3}(?:[,\u00a0\u202f']\\d{3})+(?:\\.\\d+)?`,      // 1,234.56
+  `\\d+(?:\\.\\d+)?`,                                    // 1234.56
+];
+
+// Locale-formatted number as written -> value and decimal places
+function parseNumber(num: string, withCurrency: boolean): { value: number; decimals: number } {
+  const plain = EUROPEAN.test(num) ? num.replace(/[. \u00a0\u202f']/g, '').replace(',', '.')
+    : DOT_GROUPED.test(num) || (withCurrency && SINGLE_DOT_GROUP.test(num)) ? num.replace(/\./g, '')
+    : num.replace(/[, \u00a0\u202f']/g, '');
+  return { value: parseFloat(plain), decimals: plain.includes('.') ? plain.split('.')[1].length : 0 };
+}
+
+const CURRENCY = `(?:${CURRENCY_CODES.join('|')}|[$€£¥])`;
+const MINUS = '[-\u2212]';
+const numberPattern = (formats: string[]) => new RegExp(
+  `(?:(?<![\\w.,])(${MINUS}))?` +                               // 1: sign, unless part of a range, date or ID
+  `(?:(${CURRENCY})\\s?(${MINUS})?)?` +                           // 2: leading currency, 3: sign after it
+  `(${formats.join('|')})` +                                     // 4: number
+  `\\s?(k|mn|mm|m|bn|b|thousand|million|billion)?(?![a-z])` +   // 5: multiplier
+  `\\s?(%|percent)?` +                                          // 6: percent
+  `(?:\\s?(${CURRENCY_CODES.join('|')}\\b|[$€£¥]))?` +          // 7: trailing currency
+  `(?:\\s?(?:business |working |calendar )?(hours|hour|hrs|hr|h|days|day|d|weeks|week|wk)\\b)?`, // 8: duration
+  'gi'
+);
+const NUMBER_PATTERN = numberPattern([SPACE_GROUPED, ...NUMBER_FORMATS]);
+const UNSPACED_PATTERN = numberPattern(NUMBER_FORMATS);
+
+// Gap between two numbers that makes them a range sharing a unit ("5-7 days", "10 to 12k")
+const RANGE_GAP = /^\s*(?:-|–|—|to)\s*$/i;
+
+interface Found {
+  q: Quantity;
+  start: number;
+  end: number;
+  multiplier?: number;
+  hours?: number;
+}
+
+function scan(text: string, pattern: RegExp, offset = 0): Found[] {
+  const found: Found[] = [];
+
+  for (const m of text.matchAll(pattern)) {
+    const [raw, sign, lead, leadSign, num, mult, pct, trail, duration] = m;
+    const at = (m.index || 0);
+
+    // Plain spaces only group digits next to a currency; elsewhere "3 100" is two numbers
+    if (num.includes(' ') && !lead && !trail && pattern !== UNSPACED_PATTERN) {
+      found.push(...scan(raw, UNSPACED_PATTERN, offset + at));
+      continue;
+    }
+
+    const { value, decimals } = parseNumber(num, !!(lead || trail) && !mult);
+    const multiplier = mult ? MULTIPLIERS[mult.toLowerCase()] : undefined;
+    const hours = duration ? DURATION_HOURS[duration.toLowerCase()] : undefined;
+    const scale = (multiplier || 1) * (hours || 1);
+
+    let unit: string | undefined;
+    if (hours) {
+      unit = 'hours';
+    } else if (pct) {
+      unit = 'percent';
+    } else if (lead || trail) {
+      const code = (lead || trail).toUpperCase();
+      unit = CURRENCY_SYMBOLS[code] || code;
+    }
+
+    // Accounting negatives: a grouped or decimal amount opening a parenthesis, "(5,000)" or "(1.234,56 €)"
+    const numStart = at + raw.indexOf(num);
+    const bracketed = text[numStart - 1] === '(' && text[at + raw.trimEnd().length] === ')' &&
+      /[.,' \u00a0\u202f]/.test(num) && unit !== 'hours' && unit !== 'percent';
+    const negative = !!(sign || leadSign) || bracketed;
+
+    found.push({
+      q: { amount: (negative ? -1 : 1) * value * scale, step: Math.pow(10, -decimals) * scale, unit },
+      start: offset + numStart,
+      end: offset + at + raw.length,
+      multiplier,
+      hours,
+    });
+  }
+
+  return found;
+}
+
+export function parseQuantities(text: string): Quantity[] {
+  const found = scan(text, NUMBER_PATTERN);
+
+  // The first number of a range inherits the multiplier and unit of the second
+  for (let i = found.length - 2; i >= 0; i--) {
+    const [a, b] = [found[i], found[i + 1]];
+    if (!RANGE_GAP.test(text.slice(a.end, b.start))) continue;
+
+    let scale = 1;
+    if (!a.multiplier && b.multiplier) scale *= b.multiplier;
+    if (!a.q.unit && b.q.unit) {
+      a.q.unit = b.q.unit;
+      scale *= b.hours || 1;
+    }
+    a.q.amount *= scale;
+    a.q.step *= scale;
+  }
+
+  return found.map(f => f.q);
+}
+
+// ISO code for a currency code or symbol such as a signal's unit; undefined for anything else ("units", "hours")
+export function currencyOf(unit: string | undefined): string | undefined {
+  const code = (unit || '').trim().toUpperCase();
+  return CURRENCY_SYMBOLS[code] || (CURRENCY_CODES.includes(code) ? code : undefined);
+}
+
+// Currency written with the first amount in `text` that has one ("EUR 20,200 / 62,118" -> EUR)
+export function valueCurrency(text: string | number): string | undefined {
+  return parseQuantities(String(text)).map(q => currencyOf(q.unit)).find(Boolean);
+}
+
+// Two quantities match if they agree to the coarser of their written precisions. `currency` is the known currency
+// of a number written without one, so a bare value cannot match an amount in another currency.
+export function sameQuantity(a: Quantity, b: Quantity, currency?: string): boolean {
+  const [unitA, unitB] = [a.unit || currency, b.unit || currency];
+  if (unitA && unitB && unitA !== unitB) return false;
+
+  const tolerance = Math.max(a.step, b.step) / 2;
+  return Math.abs(a.amount - b.amount) <= tolerance + 1e-9;
+}
+
+// True if every number in `value` appears in at least one of the quotes, in `currency` when it is known
+export function valueInQuotes(value: string | number, quotes: string[], currency?: string): boolean {
+  const wanted = parseQuantities(String(value));
+  if (wanted.length === 0) return true;   // Nothing numeric to check
+
+  const available = quotes.flatMap(q => parseQuantities(q || ''));
+  return wanted.every(w => available.some(a => sameQuantity(w, a, currency)));
+}
+
+// Flag signal values and drop conflict claims whose numbers cannot be traced to their quotes
+export function traceValues(
+  signals: Signal[],
+  conflicts: Conflict[]
+): { signals: Signal[]; conflicts: Conflict[]; drops: Drop[]; issues: ValueIssue[] } {
+  const drops: Drop[] = [];
+  const issues: ValueIssue[] = [];
+
+  for (const signal of signals) {
+    if (signal.value === undefined || signal.value === null || signal.value === '') continue;
+
+    const quotes = signal.evidence.map(ev => ev.quote);
+    if (!valueInQuotes(signal.value, quotes, currencyOf(signal.unit) || valueCurrency(signal.value))) {
+      console.warn(`[values] Signal ${signal.id}: value "${signal.value}" not found in its evidence`);
+      issues.push({
+        target: signal.id,
+        value: String(signal.value),
+        quotes,
+        action: 'flagged',
+        reason: 'Signal value does not appear in any evidence quote',
+      });
+    }
+  }
+
+  const tracedConflicts: Conflict[] = [];
+  for (const conflict of conflicts) {
+    const claims: ConflictClaim[] = [];
+
+    for (const [idx, claim] of (conflict.claims || []).entries()) {
+      if (valueInQuotes(claim.value, [claim.quote], valueCurrency(claim.value))) {
+        claims.push(claim);
+        continue;
+      }
+
+      console.warn(`[values] Conflict ${conflict.id}: claim value "${claim.value}" not found in its quote`);
+      issues.push({
+        target: `${conflict.id}.claims[${idx}]`,
+        value: claim.value,
+        quotes: [claim.quote],
+        action: 'dropped',
+        reason: 'Claim value does not appear in its quote',
+      });
+      drops.push({
+        id: `D_${conflict.id}_v${idx + 1}`,
+        what: `${conflict.topic}: ${claim.value} (${claim.source})`,
+        reason: 'VALUE_NOT_IN_QUOTE',
+        detail: `Value "${claim.value}" is not stated in the quote "${claim.quote}"`,
+        would_fix: 'Quote the passage that states this number, or remove the claim',
+      });
+    }
+
+    if (claims.length < 2 && (conflict.claims || []).length >= 2) {
+      drops.push({
+        id: `D_${conflict.id}`,
+        what: conflict.topic,
+        reason: 'VALUE_NOT_IN_QUOTE',
+        detail: `Only ${claims.length} of ${conflict.claims.length} claim values could be traced to their quotes`,
+        would_fix: 'Verify the disputed values manually',
+      });
+    } else {
+      tracedConflicts.push({ ...conflict, claims });
+    }
+  }
+
+  return { signals, conflicts: tracedConflicts, drops, issues };
+}
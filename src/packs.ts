@@ -0,0 +1,254 @@
+// packs.ts - Pack manifest (packs.json), uploaded pack storage and hot reload
+
+import { readFileSync, existsSync, writeFileSync, renameSync, mkdirSync, rmSync, watchFile } from 'fs';
+import { join, resolve, sep, extname } from 'path';
+import { SeverityMode } from './severity';
+import { detectInputType, SUPPORTED_EXTENSIONS, MAX_SPREADSHEET_BYTES } from './ingest';
+import { ExtractionMode } from './mapreduce';
+
+export interface PackConfig {
+  id: string;
+  name: string;
+  description?: string;
+  files: { doc_id: string; filename: string }[];
+  severity_mode?: SeverityMode;   // 'override' (default) or 'flag' model severities that disagree with the rules
+  provider?: string;              // Model provider ID (gemini, record, replay, ...)
+  model?: string;                 // Model ID passed to the provider
+  extraction_mode?: ExtractionMode;  // 'single' (default), 'per_document' or 'page_range'
+  chunk_pages?: number;           // Pages per part in page_range mode
+  reporting_currency?: string;    // ISO code amounts are converted to (default USD)
+  profile?: string;               // Domain profile ID (default treasury_ops, see profiles.ts)
+}
+
+interface PacksManifest {
+  packs: PackConfig[];
+}
+
+export interface UploadedFile {
+  doc_id: string;
+  originalname: string;
+  buffer: Buffer;
+}
+
+export const PROJECT_ROOT = join(__dirname, '..');
+const PACKS_PATH = join(PROJECT_ROOT, 'packs.json');
+
+// Uploaded files are stored under uploaded-packs/<pack id>/
+export const UPLOADS_DIR = 'uploaded-packs';
+
+export const MAX_UPLOAD_BYTES = Number(process.env.MAX_UPLOAD_MB || 25) * 1024 * 1024;
+export const MAX_UPLOAD_FILES = 20;
+
+export const ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/i;
+
+// Validation failures that should surface as 400s
+export class PackError extends Error {}
+
+// Current packs by ID - replaced in place on every reload
+export const PACKS: Record<string, PackConfig> = {};
+
+// Set while packs.json cannot be parsed: saving then would overwrite the manifest with whatever is in memory
+let manifestUnreadable = false;
+
+// Load packs from JSON file. An unreadable file keeps the packs already loaded.
+export function loadPacks(): Record<string, PackConfig> {
+  if (!existsSync(PACKS_PATH)) {
+    for (const id of Object.keys(PACKS)) delete PACKS[id];
+    manifestUnreadable = false;
+    console.warn('[packs] packs.json not found, using empty config');
+    return PACKS;
+  }
+
+  try {
+    const manifest: PacksManifest = JSON.parse(readFileSync(PACKS_PATH, 'utf-8'));
+
+    for (const id of Object.keys(PACKS)) delete PACKS[id];
+    for (const pack of manifest.packs) {
+      PACKS[pack.id] = pack;
+    }
+    manifestUnreadable = false;
+
+    console.log(`[packs] Loaded ${manifest.packs.length} packs from packs.json`);
+  } catch (e) {
+    manifestUnreadable = true;
+    console.error('[packs] Failed to load packs.json - pack changes are refused until it is fixed:', e);
+  }
+  return PACKS;
+}
+
+function checkManifest(): void {
+  if (manifestUnreadable) throw new PackError('packs.json could not be read; fix it before changing packs');
+}
+
+// Written to a temporary file and renamed over packs.json, so a crash never leaves half a manifest. Callers pass the
+// packs as they should be and change PACKS only once this returns, so a failed save leaves memory as on disk.
+function savePacks(packs: Record<string, PackConfig>): void {
+  checkManifest();
+  const manifest: PacksManifest = { packs: Object.values(packs) };
+  // Keep file entries on one line, like the hand-written manifest
+  const json = JSON.stringify(manifest, null, 2).replace(
+    /\{\s+"doc_id": ("[^"]*"),\s+"filename": ("[^"]*")\s+\}/g,
+    '{ "doc_id": $1, "filename": $2 }'
+  );
+  const tmpPath = `${PACKS_PATH}.tmp`;
+  writeFileSync(tmpPath, json + '\n');
+  renameSync(tmpPath, PACKS_PATH);
+}
+
+// Pick up manual edits to packs.json without a restart
+export function watchPacks(): void {
+  watchFile(PACKS_PATH, { interval: 2000 }, () => {
+    console.log('[packs] packs.json changed, reloading');
+    loadPacks();
+  });
+}
+
+// Rejects unsupported types, empty files and files that are too large. Returns an error message or undefined.
+export function validateUpload(file: UploadedFile): string | undefined {
+  if (!ID_PATTERN.test(file.doc_id)) {
+    return `Invalid doc_id "${file.doc_id}" (letters, digits, "-" and "_" only)`;
+  }
+  if (file.buffer.length === 0) {
+    return `${file.originalname} is empty`;
+  }
+  if (file.buffer.length > MAX_UPLOAD_BYTES) {
+    return `${file.originalname} exceeds ${MAX_UPLOAD_BYTES / 1024 / 1024} MB`;
+  }
+  const type = detectInputType(file.originalname, file.buffer);
+  if (!type) {
+    return `${file.originalname} is not a supported file (${SUPPORTED_EXTENSIONS.join(', ')})`;
+  }
+  if (type === 'spreadsheet' && file.buffer.length > MAX_SPREADSHEET_BYTES) {
+    return `${file.originalname} exceeds ${MAX_SPREADSHEET_BYTES / 1024 / 1024} MB (spreadsheet limit)`;
+  }
+  return undefined;
+}
+
+// Doc IDs default to the file name without extension
+export function defaultDocId(filename: string): string {
+  return filename.replace(/\.[^.]+$/, '').toLowerCase().replace(/[^a-z0-9_-]+/g, '-').replace(/^-+|-+$/g, '') || 'doc';
+}
+
+function packDir(packId: string): string {
+  return join(PROJECT_ROOT, UPLOADS_DIR, packId);
+}
+
+function storeFiles(packId: string, files: UploadedFile[]): PackConfig['files'] {
+  const dir = packDir(packId);
+  mkdirSync(dir, { recursive: true });
+
+  return files.map(file => {
+    const filename = `${UPLOADS_DIR}/${packId}/${file.doc_id}${extname(file.originalname).toLowerCase()}`;
+    writeFileSync(join(PROJECT_ROOT, filename), file.buffer);
+    return { doc_id: file.doc_id, filename };
+  });
+}
+
+// Deletes uploaded files; bundled files outside uploaded-packs/ are left alone
+function removeUploads(filenames: string[]): void {
+  const uploads = resolve(PROJECT_ROOT, UPLOADS_DIR) + sep;
+  for (const filename of filenames) {
+    const path = resolve(PROJECT_ROOT, filename);
+    if (path.startsWith(uploads)) rmSync(path, { force: true });
+  }
+}
+
+function checkFiles(files: UploadedFile[]): void {
+  const seen = new Set<string>();
+  for (const file of files) {
+    const error = validateUpload(file);
+    if (error) throw new PackError(error);
+    if (seen.has(file.doc_id)) throw new PackError(`Duplicate doc_id "${file.doc_id}"`);
+    seen.add(file.doc_id);
+  }
+}
+
+export function createPack(
+  meta: { id: string; name?: string; description?: string; profile?: string },
+  files: UploadedFile[]
+): PackConfig {
+  checkManifest();
+  if (!ID_PATTERN.test(meta.id || '')) throw new PackError('Invalid pack id (letters, digits, "-" and "_" only)');
+  if (PACKS[meta.id]) throw new PackError(`Pack "${meta.id}" already exists`);
+  if (files.length === 0) throw new PackError('At least one document is required');
+  checkFiles(files);
+
+  const pack: PackConfig = {
+    id: meta.id,
+    name: meta.name || meta.id,
+    description: meta.description,
+    ...(meta.profile ? { profile: meta.profile } : {}),
+    files: storeFiles(meta.id, files),
+  };
+
+  try {
+    savePacks({ ...PACKS, [pack.id]: pack });
+  } catch (e) {
+    rmSync(packDir(pack.id), { recursive: true, force: true });
+    throw e;
+  }
+  PACKS[pack.id] = pack;
+  console.log(`[packs] Created pack ${pack.id} (${pack.files.length} files)`);
+  return pack;
+}
+
+// Updates name/description/profile; uploaded files replace same doc_id or are appended
+export function updatePack(
+  id: string,
+  meta: { name?: string; description?: string; profile?: string },
+  files: UploadedFile[]
+): PackConfig {
+  checkManifest();
+  const current = PACKS[id];
+  if (!current) throw new PackError(`Unknown pack "${id}"`);
+  checkFiles(files);
+
+  const pack: PackConfig = {
+    ...current,
+    ...(meta.name ? { name: meta.name } : {}),
+    ...(meta.description !== undefined ? { description: meta.description } : {}),
+    ...(meta.profile ? { profile: meta.profile } : {}),
+    files: [...current.files],
+  };
+
+  // A replacement with another extension is stored under a new name; the file it supersedes goes once saved
+  const stored = storeFiles(id, files);
+  const superseded: string[] = [];
+  for (const file of stored) {
+    const existing = pack.files.findIndex(f => f.doc_id === file.doc_id);
+    if (existing < 0) {
+      pack.files.push(file);
+      continue;
+    }
+    if (pack.files[existing].filename !== file.filename) superseded.push(pack.files[existing].filename);
+    pack.files[existing] = file;
+  }
+
+  try {
+    savePacks({ ...PACKS, [id]: pack });
+  } catch (e) {
+    const kept = new Set(current.files.map(f => f.filename));
+    removeUploads(stored.map(f => f.filename).filter(f => !kept.has(f)));
+    throw e;
+  }
+  PACKS[id] = pack;
+  removeUploads(superseded);
+  console.log(`[packs] Updated pack ${id} (${pack.files.length} files)`);
+  return pack;
+}
+
+// Removes the pack from the manifest; uploaded files are deleted, bundled ones are left alone
+export function deletePack(id: string): void {
+  checkManifest();
+  if (!PACKS[id]) throw new PackError(`Unknown pack "${id}"`);
+
+  const { [id]: _deleted, ...remaining } = PACKS;
+  savePacks(remaining);
+  delete PACKS[id];
+
+  const dir = resolve(packDir(id));
+  if (dir.startsWith(resolve(PROJECT_ROOT, UPLOADS_DIR) + sep) && existsSync(dir)) {
+    rmSync(dir, { recursive: true, force: true });
+  }
+  console.log(`[packs] Deleted pack ${id}`);
+}
@@ -0,0 +1,97 @@
+// profiles.ts - Domain profiles (profiles/<id>.json): per-pack signal types, conflict taxonomy, severity table, templates and prompt section
+
+import { readFileSync, existsSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { GeminiSignalResponse, Severity } from './types';
+import { TemplateRegistry } from './templates';
+import { engineSeverityRows } from './severity';
+import { PROJECT_ROOT } from './packs';
+
+const PROFILES_DIR = join(PROJECT_ROOT, 'profiles');
+
+// Packs without a "profile" in packs.json get the taxonomy the compiler was built around
+export const DEFAULT_PROFILE = 'treasury_ops';
+
+const PROFILE_ID = /^[a-z0-9_-]+$/i;
+
+// One row of the severity calibration table; "N/A" means the type has no such level
+export interface SeverityRow {
+  critical: string;
+  high: string;
+  medium: string;
+  low: string;
+}
+
+export interface DomainProfile {
+  id: string;
+  name: string;
+  version: string;
+  description: string;
+  signal_types: Record<string, string>;      // Type ID -> what it means
+  conflict_types: Record<string, string>;
+  severity_rules: Record<string, SeverityRow>; // In the file: only types the severity engine does not evaluate
+  templates: string[];                       // Template IDs from check-templates.json
+  prompt: string[];                          // Domain guidance added to the prompt
+  notes: string[];                           // Domain-specific IMPORTANT NOTES
+  example: GeminiSignalResponse;             // OUTPUT FORMAT example
+}
+
+// Read on every compile so an edited profile applies without a restart; undefined if there is no such profile
+export function loadProfile(id: string): DomainProfile | undefined {
+  if (!PROFILE_ID.test(id)) return undefined;
+  const path = join(PROFILES_DIR, `${id}.json`);
+  if (!existsSync(path)) return undefined;
+
+  try {
+    const profile: DomainProfile = { ...JSON.parse(readFileSync(path, 'utf-8')), id };
+    return { ...profile, severity_rules: withEngineRows(profile) };
+  } catch (e) {
+    console.error(`[profiles] Failed to load ${id}.json:`, e);
+    return undefined;
+  }
+}
+
+// The full calibration table, in signal type order: rows for the types the severity engine evaluates come from
+// src/severity.ts, so the prompt shows the thresholds the engine applies; the rest from the profile file
+function withEngineRows(profile: DomainProfile): Record<string, SeverityRow> {
+  const engine: Record<string, SeverityRow | undefined> = engineSeverityRows();
+  const own = profile.severity_rules || {};
+
+  const shadowed = Object.keys(own).filter(type => engine[type]);
+  if (shadowed.length) console.warn(`[profiles] ${profile.id}: severity_rules set in src/severity.ts, ignored: ${shadowed.join(', ')}`);
+
+  const types = [...Object.keys(profile.signal_types), ...Object.keys(own).filter(type => !profile.signal_types[type])];
+  return Object.fromEntries(
+    types.map(type => [type, engine[type] || own[type]]).filter((entry): entry is [string, SeverityRow] => !!entry[1])
+  );
+}
+
+export function listProfiles(): DomainProfile[] {
+  if (!existsSync(PROFILES_DIR)) return [];
+  return readdirSync(PROFILES_DIR)
+    .filter(f => f.endsWith('.json'))
+    .map(f => loadProfile(f.slice(0, -'.json'.length)))
+    .filter((p): p is DomainProfile => p !== undefined);
+}
+
+// The registry narrowed to the profile's templates, so the model only sees checks that fit the domain
+export function profileTemplates(profile: DomainProfile, registry: TemplateRegistry): TemplateRegistry {
+  if (Object.keys(registry.templates).length === 0) return registry;
+
+  const missing = profile.templates.filter(id => !registry.templates[id]);
+  if (missing.length) console.warn(`[profiles] ${profile.id}: templates not in the registry: ${missing.join(', ')}`);
+
+  const templates = Object.fromEntries(
+    profile.templates.filter(id => registry.templates[id]).map(id => [id, registry.templates[id]])
+  );
+  return { version: registry.version, templates };
+}
+
+// Types whose table has no CRITICAL column are capped at HIGH
+export function severityCaps(profile: DomainProfile): Record<string, Severity> {
+  return Object.fromEntries(
+    Object.entries(profile.severity_rules)
+      .filter(([, row]) => row.critical.trim().toUpperCase() === 'N/A')
+      .map(([type]) => [type, 'high' as Severity])
+  );
+}
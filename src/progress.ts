@@ -0,0 +1,83 @@
+// progress.ts - Compile progress events, cancellation hooks and partial-signal parsing
+
+import { Signal } from './types';
+
+export type CompileStage = 'cache' | 'loading' | 'hashing' | 'model_call' | 'parsing' | 'repair' | 'merge' | 'verification' | 'saving';
+
+export type CompileEvent =
+  | { type: 'stage'; stage: CompileStage; message: string; doc_id?: string; part?: PartProgress }
+  | { type: 'signal'; signal: Signal };    // Parsed from the streaming response, not yet verified
+
+// Which model call of a map-reduce compile an event belongs to (1-based), and how many are still to come after it
+export interface PartProgress {
+  index: number;
+  total: number;
+  remaining: number;
+}
+
+// Optional hooks threaded through the pipeline
+export interface CompileHooks {
+  signal?: AbortSignal;
+  onEvent?: (event: CompileEvent) => void;
+}
+
+// Thrown when a caller cancels, so it is not mistaken for a model failure
+export class CompileCancelled extends Error {
+  constructor() {
+    super('Compilation cancelled');
+  }
+}
+
+// Picks complete objects out of the "signals" array while the JSON response is still arriving
+export class SignalStreamParser {
+  private text = '';
+  private pos = 0;             // Next character to scan
+  private inArray = false;
+  private depth = 0;           // Brace depth inside the array
+  private objectStart = -1;
+  private inString = false;
+  private escaped = false;
+  private done = false;
+
+  push(chunk: string): Signal[] {
+    this.text += chunk;
+    const found: Signal[] = [];
+
+    if (!this.inArray && !this.done) {
+      const match = /"signals"\s*:\s*\[/.exec(this.text);
+      if (!match) return found;
+      this.inArray = true;
+      this.pos = match.index + match[0].length;
+    }
+
+    while (this.inArray && this.pos < this.text.length) {
+      const ch = this.text[this.pos];
+
+      if (this.inString) {
+        if (this.escaped) this.escaped = false;
+        else if (ch === '\\') this.escaped = true;
+        else if (ch === '"') this.inString = false;
+      } else if (ch === '"') {
+        this.inString = true;
+      } else if (ch === '{') {
+        if (this.depth === 0) this.objectStart = this.pos;
+        this.depth++;
+      } else if (ch === '}') {
+        this.depth--;
+        if (this.depth === 0) {
+          try {
+            found.push(JSON.parse(this.text.slice(this.objectStart, this.pos + 1)));
+          } catch {
+            // Malformed object - the full response goes through schema validation anyway
+          }
+        }
+      } else if (ch === ']' && this.depth === 0) {
+        this.inArray = false;
+        this.done = true;
+      }
+      this.pos++;
+    }
+
+    return found;
+  }
+}
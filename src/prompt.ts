@@ -1,7 +1,15 @@
-// prompt.ts - The one prompt that matters
+// prompt.ts - The one prompt that matters, with its domain sections filled in from the pack's profile
+
+import { TemplateRegistry } from './templates';
+import { DomainProfile } from './profiles';
+
+// Bump on every edit of the prompt below; runs and evaluations record it next to config_hash (see eval.ts)
+export const PROMPT_VERSION = '2026-02-24';
 
 export const SIGNAL_COMPILER_PROMPT = `You are a Signal Compiler for executive documents. Your job is to extract evidence-backed signals that help executives make decisions.
 
+{{DOMAIN}}
+
 ## HARD RULES (Non-Negotiable)
 
 1. **NO SIGNAL WITHOUT EVIDENCE** - Every signal MUST include an exact quote from the source document with page number. If you can't quote it, don't include it.
@@ -12,7 +20,11 @@ export const SIGNAL_COMPILER_PROMPT = `You are a Signal Compiler for executive d
 
 4. **EXPLAIN DROPS** - If you see something that looks like a signal but can't ground it in evidence, add it to drops[].
 
-5. **QUOTE EXACTLY WITH LOCATION** - Every evidence span MUST include page number. For scans, include bbox.
+5. **QUOTE EXACTLY WITH LOCATION** - Every evidence span and claim MUST include its location:
+   - PDFs: \`page\`. For scans, also include \`bbox\`.
+   - Text and email documents: \`line\` (from the numbered left column).
+   - Spreadsheets: \`sheet\` and \`cell\` (from the [Sheet!Cell] markers).
+   - Images: \`page\`: 1 and \`bbox\`.
 
 ## MONEY-LIKE FACTS: STRICT RULE
 
@@ -25,156 +37,31 @@ export const SIGNAL_COMPILER_PROMPT = `You are a Signal Compiler for executive d
 ## CANONICAL CONFLICT TAXONOMY
 
 Use these exact conflict types (not UI-friendly names):
-- \`liquidity.cash_definition\`: Cash values with different/unclear definitions
-- \`liquidity.cash_amount\`: Same definition, different amounts
-- \`logistics.eta\`: Delivery/clearance time discrepancies
-- \`logistics.quantity\`: Shipped vs received quantities
-- \`quality.conformance\`: Pass vs fail on same spec
-- \`sales.payment_terms\`: Disputed payment terms
-- \`ops.inventory_count\`: Inventory count discrepancies
+{{CONFLICT_TYPES}}
 
 ## SEVERITY CALIBRATION RULES
 
 Severity MUST be rule-based, not vibes. Include \`severity_reason\` explaining which rule applies:
 
-| Signal Type | CRITICAL | HIGH | MEDIUM | LOW |
-|-------------|----------|------|--------|-----|
-| liquidity.covenant_breach | Breach possible | >80% threshold consumed | >60% consumed | <60% |
-| liquidity.cash_discrepancy | N/A | >5% or >$10k discrepancy | 2-5% or $5-10k | <2% and <$5k |
-| quality.nonconformance | Safety-related | Customer-facing | Internal-only | Documentation only |
-| ops.inventory_discrepancy | N/A | >2% or >$5k | 1-2% | <1% |
-| logistics.border_delay | Production stops | >24h + production impact | >24h, no impact | <24h |
+{{SEVERITY_TABLE}}
 
 ## TEMPLATE-BASED NEXT CHECKS
 
 Next checks must use canonical templates, not case-specific wording.
 
 **Templates:**
-- \`cash_reconciliation\`: Reconcile internal vs bank; enumerate restricted items; align value dates; compute covenant metric
-- \`covenant_threshold_check\`: Verify metric vs covenant threshold per definition
-- \`restricted_classification\`: Determine if restricted items (holds/collateral/sweeps) count toward covenant metric
-- \`eta_confirmation\`: Confirm ETA with authoritative source
-- \`quantity_verification\`: Verify quantity with source documents
-- \`quality_retest\`: Retest against spec
-- \`payment_status\`: Confirm payment with customer/bank
+{{TEMPLATES}}
+
+Use the slot names listed for each template (* = required) and fill every required slot with a value from the documents. Slots are what the question is rendered from, so put case-specific values in slots, not only in the question.
 
 **Structure:**
 \`\`\`json
-{
-  "template": "cash_reconciliation",
-  "question": "Reconcile internal cash figure vs bank ledger and available balances; enumerate restricted items; align value dates; compute covenant-defined unrestricted cash",
-  "slots": {
-    "internal_figure": "85,240",
-    "bank_ledger": "62,184.09",
-    "bank_available": "41,984.09",
-    "restricted_items": ["20,200 hold"],
-    "value_dates": ["2026-01-25", "2026-01-27"]
-  }
-}
+{{TEMPLATE_EXAMPLE}}
 \`\`\`
 
 ## OUTPUT FORMAT
 
-{
-  "signals": [
-    {
-      "id": "S1",
-      "type": "liquidity.cash_discrepancy",
-      "summary": "Cash position unclear: internal reports differs from bank ledger/available",
-      "severity": "high",
-      "severity_reason": "Discrepancy >$10k (rule: HIGH if >5% or >$10k)",
-      "owner": "Treasury",
-      "evidence": [
-        {"source": "weekly-pack.pdf", "quote": "Cash on hand (USD) 85,240", "page": 1},
-        {"source": "bank-statement-scan.pdf", "quote": "Closing Ledger Balance: 62,184.09", "page": 1, "bbox": [0.1, 0.6, 0.4, 0.05]}
-      ],
-      "recommended_check": "Execute cash_reconciliation template",
-      "blocker_for": ["S2"]
-    },
-    {
-      "id": "S2",
-      "type": "liquidity.covenant_breach",
-      "summary": "Covenant breach risk: minimum unrestricted cash required, position uncertain",
-      "severity": "critical",
-      "severity_reason": "Breach possible (rule: CRITICAL if breach possible)",
-      "owner": "CFO",
-      "evidence": [
-        {"source": "email-thread.pdf", "quote": "covenant floor is USD 50,000 unrestricted", "page": 1}
-      ],
-      "recommended_check": "Resolve S1 first, then execute covenant_threshold_check"
-    }
-  ],
-  "conflicts": [
-    {
-      "id": "C1",
-      "type": "liquidity.cash_definition",
-      "topic": "Cash Position",
-      "claims": [
-        {"source": "weekly-pack.pdf", "value": "85,240", "quote": "Cash on hand (USD) 85,240", "definition": "internal_reported", "value_date": "2026-01-25", "page": 1},
-        {"source": "email-thread.pdf", "value": "62,118", "quote": "unrestricted balance is USD 62,118", "definition": "unrestricted", "value_date": "2026-01-25", "page": 1},
-        {"source": "bank-statement-scan.pdf", "value": "62,184.09", "quote": "Closing Ledger Balance: 62,184.09", "definition": "ledger", "value_date": "2026-01-27", "page": 1},
-        {"source": "bank-statement-scan.pdf", "value": "41,984.09", "quote": "Available Balance: 41,984.09", "definition": "available", "value_date": "2026-01-27", "page": 1},
-        {"source": "bank-statement-scan.pdf", "value": "20,200.00", "quote": "Cash Collateral Hold: 20,200.00", "definition": "restricted", "value_date": "2026-01-27", "page": 1}
-      ],
-      "flags": ["VALUE_DATE_MISMATCH", "DEFINITION_UNKNOWN", "BLOCKER"],
-      "how_to_resolve": "Execute cash_reconciliation template to align definitions and dates"
-    },
-    {
-      "id": "C2",
-      "type": "logistics.eta",
-      "topic": "Shipment ETA",
-      "claims": [
-        {"source": "weekly-pack.pdf", "value": "48 hours", "quote": "Expected clearance: 48 hours", "page": 2},
-        {"source": "meeting-notes.pdf", "value": "5-7 days", "quote": "realistic ETA is 5-7 business days minimum", "page": 1}
-      ],
-      "flags": [],
-      "how_to_resolve": "Execute eta_confirmation template with customs broker"
-    }
-  ],
-  "next_checks": [
-    {
-      "priority": 1,
-      "owner": "Treasury",
-      "template": "cash_reconciliation",
-      "question": "Reconcile internal cash figure vs bank ledger and available balances; enumerate restricted items; align value dates; compute covenant-defined unrestricted cash",
-      "done_when": "Reconciliation table with same-date comparison, itemized restricted amounts, final unrestricted figure",
-      "slots": {"internal_figure": "85,240", "bank_ledger": "62,184.09", "bank_available": "41,984.09"}
-    },
-    {
-      "priority": 2,
-      "owner": "CFO",
-      "template": "restricted_classification",
-      "question": "Does restricted cash (holds/collateral/sweeps) count toward 'unrestricted cash' per covenant definition?",
-      "done_when": "Yes/No with covenant document citation",
-      "slots": {"restricted_amount": "20,200.00", "covenant_metric": "unrestricted cash"}
-    },
-    {
-      "priority": 3,
-      "owner": "CFO",
-      "template": "covenant_threshold_check",
-      "question": "Is unrestricted cash >= covenant floor per bank definition?",
-      "done_when": "Yes/No with supporting calculation from check #1",
-      "slots": {"metric": "unrestricted_cash", "threshold": "50,000", "unit": "USD"}
-    },
-    {
-      "priority": 4,
-      "owner": "COO",
-      "template": "eta_confirmation",
-      "question": "Confirm shipment clearance ETA with customs broker",
-      "done_when": "Official ETA from broker with reference number",
-      "slots": {"claimed_eta_optimistic": "48 hours", "claimed_eta_pessimistic": "5-7 days"}
-    }
-  ],
-  "drops": [
-    {
-      "id": "D1",
-      "what": "Bank statement attachment referenced in email",
-      "reason": "REFERENCED_NOT_ATTACHED",
-      "detail": "Email mentions attachment but file not included",
-      "would_fix": "Upload the referenced PDF"
-    }
-  ]
-}
+{{EXAMPLE}}
 
 ## IMPORTANT NOTES
 
@@ -182,9 +69,133 @@ Next checks must use canonical templates, not case-specific wording.
 - Use canonical conflict types, not ad-hoc topic names
 - Every severity MUST have severity_reason citing the calibration rule
 - Next checks MUST use template + slots pattern
-- Restricted items (holds/collateral) MUST appear as separate claims in conflicts
-- DO NOT mark both cash_discrepancy and covenant_breach as CRITICAL
+{{NOTES}}
+- A \`check-answers\` document holds reviewers' answers to earlier next checks. Treat each answer as evidence: cite it like any other source, do not report conflicts or next checks an answer resolves, and do not repeat answered questions
 
 ## DOCUMENTS TO ANALYZE
 
 `;
+
+// One line per registered template: ID, default owner, description and slots
+function describeTemplates(registry: TemplateRegistry): string {
+  const lines = Object.entries(registry.templates).map(([id, template]) => {
+    const slots = Object.entries(template.slots || {})
+      .map(([name, spec]) => `${name}${spec.required ? '*' : ''} (${spec.type})`)
+      .join(', ');
+    return `- \`${id}\` (${template.owner}): ${template.description}${slots ? `. Slots: ${slots}` : ''}`;
+  });
+  return lines.length ? lines.join('\n') : '- Any template ID that describes the check; put case-specific values in slots';
+}
+
+// Profile name, guidance and the signal types the model may use
+function describeDomain(profile: DomainProfile): string {
+  const types = Object.entries(profile.signal_types).map(([id, description]) => `- \`${id}\`: ${description}`);
+  return [
+    `## DOMAIN: ${profile.name.toUpperCase()}`,
+    '',
+    `${profile.description}.`,
+    ...(profile.prompt.length ? ['', ...profile.prompt] : []),
+    '',
+    'Use these exact signal types:',
+    ...types,
+  ].join('\n');
+}
+
+function describeConflictTypes(profile: DomainProfile): string {
+  return Object.entries(profile.conflict_types).map(([id, description]) => `- \`${id}\`: ${description}`).join('\n');
+}
+
+function severityTable(profile: DomainProfile): string {
+  const rows = Object.entries(profile.severity_rules)
+    .map(([type, row]) => `| ${type} | ${row.critical} | ${row.high} | ${row.medium} | ${row.low} |`);
+  return [
+    '| Signal Type | CRITICAL | HIGH | MEDIUM | LOW |',
+    '|-------------|----------|------|--------|-----|',
+    ...rows,
+  ].join('\n');
+}
+
+// Pretty-printed JSON with flat nested objects (evidence spans, claims, slots) kept on one line
+function compactJson(value: unknown, indent = '', depth = 0): string {
+  const isFlat = (v: unknown) => typeof v !== 'object' || v === null || (Array.isArray(v) && v.every(x => typeof x !== 'object'));
+  const inner = indent + '  ';
+
+  if (Array.isArray(value)) {
+    if (value.every(isFlat)) return `[${value.map(v => JSON.stringify(v)).join(', ')}]`;
+    return `[\n${value.map(v => inner + compactJson(v, inner, depth + 1)).join(',\n')}\n${indent}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value);
+    if (depth >= 3 && entries.every(([, v]) => isFlat(v))) {
+      return `{${entries.map(([k, v]) => `${JSON.stringify(k)}: ${compactJson(v)}`).join(', ')}}`;
+    }
+    return `{\n${entries.map(([k, v]) => `${inner}${JSON.stringify(k)}: ${compactJson(v, inner, depth + 1)}`).join(',\n')}\n${indent}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// The first example next check with slots, as the template + slots structure
+function templateExample(profile: DomainProfile): string {
+  const check = profile.example.next_checks.find(c => c.slots && Object.keys(c.slots).length > 0);
+  if (!check) return '{ "template": "<template id>", "question": "...", "slots": { "<slot>": "<value from the documents>" } }';
+  return JSON.stringify({ template: check.template, question: check.question, slots: check.slots }, null, 2);
+}
+
+// The compiler prompt with the profile's taxonomy, severity table, example and notes, and the registry's templates
+export function buildCompilerPrompt(profile: DomainProfile, registry: TemplateRegistry): string {
+  // Replacer functions, so a "$" in profile text is not read as a replacement pattern
+  return SIGNAL_COMPILER_PROMPT
+    .replace('{{DOMAIN}}', () => describeDomain(profile))
+    .replace('{{CONFLICT_TYPES}}', () => describeConflictTypes(profile))
+    .replace('{{SEVERITY_TABLE}}', () => severityTable(profile))
+    .replace('{{TEMPLATES}}', () => describeTemplates(registry))
+    .replace('{{TEMPLATE_EXAMPLE}}', () => templateExample(profile))
+    .replace('{{EXAMPLE}}', () => compactJson(profile.example))
+    .replace('{{NOTES}}\n', () => profile.notes.map(note => `- ${note}\n`).join(''));
+}
+
+// Sent back to the model when its response does not match the schema
+export const REPAIR_PROMPT = `Your previous response does not match the required JSON schema.
+
+## VIOLATIONS
+
+{{VIOLATIONS}}
+
+## RULES FOR THE REPAIR
+
+- Fix ONLY the fields listed above. Keep every other field exactly as it was.
+- Use only the canonical signal types, conflict types, flags, drop reasons and next-check templates.
+- bbox values are [x, y, width, height], each between 0 and 1.
+- Do NOT add new signals, claims or quotes. If an item cannot be fixed without inventing content, remove it.
+- Return the complete corrected JSON object and nothing else.
+
+## PREVIOUS RESPONSE
+
+{{RESPONSE}}
+`;
+
+export function buildRepairPrompt(violations: { path: string; message: string }[], response: unknown): string {
+  const listed = violations.slice(0, 50).map(v => `- \`${v.path || '(root)'}\`: ${v.message}`).join('\n');
+  const more = violations.length > 50 ? `\n- ...and ${violations.length - 50} more` : '';
+
+  return REPAIR_PROMPT
+    .replace('{{VIOLATIONS}}', () => listed + more)
+    .replace('{{RESPONSE}}', () => JSON.stringify(response));
+}
+
+// Map stage of map-reduce extraction: inserted before the documents when the model sees one document or page range
+export const PART_PROMPT = `## PARTIAL PACK
+
+You are seeing ONE PART of a larger pack: {{PART}}. Other parts are analyzed separately and the results are merged afterwards.
+
+- Extract only signals this part supports; fewer than 8 is fine.
+- For every value that another document could contradict (cash balances, thresholds, dates, quantities), emit a conflict with the claims found here, even if there is only one claim. Cross-document conflicts are assembled during the merge.
+- Cite pages as they appear in the PDF you see (page 1 = first page of this part).
+- blocker_for may only reference signals in this response.
+
+`;
+
+export function buildPartPrompt(part: string, profile: DomainProfile, registry: TemplateRegistry): string {
+  const section = PART_PROMPT.replace('{{PART}}', () => part);
+  return buildCompilerPrompt(profile, registry).replace('## DOCUMENTS TO ANALYZE', () => section + '## DOCUMENTS TO ANALYZE');
+}
@@ -0,0 +1,161 @@
+// providers.ts - Model backends behind one interface, plus record/replay for offline runs
+
+import { GoogleGenerativeAI, ResponseSchema } from '@google/generative-ai';
+import { readFileSync, existsSync, writeFileSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import { createHash } from 'crypto';
+
+export const DEFAULT_PROVIDER = process.env.MODEL_PROVIDER || 'gemini';
+export const DEFAULT_MODEL = process.env.MODEL || 'gemini-3-flash-preview';
+
+// Recorded responses live here, keyed by request hash
+const FIXTURES_DIR = process.env.FIXTURES_DIR || join(__dirname, '..', 'fixtures');
+
+export type ModelPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } };
+
+export interface GenerateOptions {
+  temperature?: number;
+  responseSchema?: ResponseSchema;
+  signal?: AbortSignal;                // Aborts the in-flight request
+  onText?: (chunk: string) => void;    // Receives the response as it streams in
+}
+
+export interface ModelProvider {
+  name: string;    // Provider ID, recorded in run_meta
+  model: string;   // Model ID, recorded in run_meta
+  generate(parts: ModelPart[], options?: GenerateOptions): Promise<string>;
+}
+
+// Which provider and model to use - from packs.json or the request
+export interface ModelSelection {
+  provider?: string;
+  model?: string;
+}
+
+type ProviderFactory = (model: string) => ModelProvider;
+
+const PROVIDERS: Record<string, ProviderFactory> = {
+  gemini: model => new GeminiProvider(model),
+  // Calls Gemini and stores every response as a fixture
+  record: model => new RecordingProvider(new GeminiProvider(model)),
+  // Never touches the network; fails if no fixture matches
+  replay: model => new ReplayProvider(model),
+};
+
+// Add another backend (local model, other hosted API) under a provider ID
+export function registerProvider(name: string, factory: ProviderFactory): void {
+  PROVIDERS[name] = factory;
+}
+
+export function availableProviders(): string[] {
+  return Object.keys(PROVIDERS);
+}
+
+export function createProvider(selection: ModelSelection = {}): ModelProvider {
+  const name = selection.provider || DEFAULT_PROVIDER;
+  const factory = PROVIDERS[name];
+
+  if (!factory) {
+    throw new Error(`Unknown model provider "${name}". Available: ${availableProviders().join(', ')}`);
+  }
+  return factory(selection.model || DEFAULT_MODEL);
+}
+
+class GeminiProvider implements ModelProvider {
+  name = 'gemini';
+  private genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
+
+  constructor(public model: string) {}
+
+  async generate(parts: ModelPart[], options: GenerateOptions = {}): Promise<string> {
+    const model = this.genAI.getGenerativeModel({
+      model: this.model,
+      generationConfig: {
+        temperature: options.temperature,
+        responseMimeType: 'application/json',
+        responseSchema: options.responseSchema,
+      },
+    });
+
+    if (!options.onText) {
+      const result = await model.generateContent(parts, { signal: options.signal });
+      return result.response.text();
+    }
+
+    const result = await model.generateContentStream(parts, { signal: options.signal });
+    let text = '';
+    for await (const chunk of result.stream) {
+      const piece = chunk.text();
+      text += piece;
+      options.onText(piece);
+    }
+    return text;
+  }
+}
+
+// Hash of everything that determines the response: model, prompt, inputs and generation config
+export function requestHash(model: string, parts: ModelPart[], options: GenerateOptions = {}): string {
+  const { signal, onText, ...config } = options;
+  return createHash('sha256')
+    .update(JSON.stringify({ model, parts, options: config }))
+    .digest('hex');
+}
+
+interface Fixture {
+  hash: string;
+  model: string;
+  recorded_at: string;
+  response: string;
+}
+
+function fixturePath(hash: string): string {
+  return join(FIXTURES_DIR, `${hash}.json`);
+}
+
+class RecordingProvider implements ModelProvider {
+  name = 'record';
+  model: string;
+
+  constructor(private inner: ModelProvider) {
+    this.model = inner.model;
+  }
+
+  async generate(parts: ModelPart[], options: GenerateOptions = {}): Promise<string> {
+    const response = await this.inner.generate(parts, options);
+    const hash = requestHash(this.model, parts, options);
+
+    try {
+      if (!existsSync(FIXTURES_DIR)) mkdirSync(FIXTURES_DIR, { recursive: true });
+      const fixture: Fixture = { hash, model: this.model, recorded_at: new Date().toISOString(), response };
+      writeFileSync(fixturePath(hash), JSON.stringify(fixture, null, 2));
+      console.log(`[provider] Recorded fixture ${hash.slice(0, 12)}`);
+    } catch (e) {
+      console.warn('[provider] Failed to record fixture:', e);
+    }
+
+    return response;
+  }
+}
+
+class ReplayProvider implements ModelProvider {
+  name = 'replay';
+
+  constructor(public model: string) {}
+
+  async generate(parts: ModelPart[], options: GenerateOptions = {}): Promise<string> {
+    options.signal?.throwIfAborted();
+    const hash = requestHash(this.model, parts, options);
+    const path = fixturePath(hash);
+
+    if (!existsSync(path)) {
+      throw new Error(`No recorded response for request ${hash.slice(0, 12)} (model ${this.model}). Run once with provider "record".`);
+    }
+
+    const fixture: Fixture = JSON.parse(readFileSync(path, 'utf-8'));
+    console.log(`[provider] Replaying fixture ${hash.slice(0, 12)}`);
+    options.onText?.(fixture.response);
+    return fixture.response;
+  }
+}
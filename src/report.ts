@@ -0,0 +1,188 @@
+// report.ts - Markdown report of a run, as exported by GET /export/:packId/md and written by the CLI
+
+import { formatLocator } from './grounding';
+import { formatReporting } from './money';
+import { ItemReview } from './types';
+import { RunEvidencePack } from './runs';
+
+// "*Review:* edited by Jane (2026-02-24): comment. Was: severity high" for reviewed items
+function reviewLine(review: ItemReview | undefined): string {
+  if (!review || review.status === 'pending') return '';
+  let line = `*Review:* ${review.status} by ${review.reviewer} (${review.reviewed_at?.slice(0, 10)})`;
+  if (review.comment) line += `: ${review.comment}`;
+  if (review.original) {
+    line += `. Was: ${Object.entries(review.original).map(([field, value]) => `${field} "${value ?? ''}"`).join(', ')}`;
+  }
+  return `${line}\n\n`;
+}
+
+export function generateMarkdown(run: RunEvidencePack): string {
+  const criticalCount = run.signals.filter((s: any) => s.severity === 'critical').length;
+  const highCount = run.signals.filter((s: any) => s.severity === 'high').length;
+
+  let md = `# Run Report: ${run.run_meta.pack_id}\n\n`;
+  md += `**Generated:** ${run.run_meta.created_at}\n`;
+  md += `**Model:** ${run.run_meta.model}\n`;
+  if (run.run_meta.profile) md += `**Profile:** ${run.run_meta.profile} (${run.run_meta.profile_version})\n`;
+  if (run.review_summary) {
+    const r = run.review_summary;
+    md += `**Review:** ${r.accepted} accepted, ${r.edited} edited, ${r.rejected} rejected, ${r.pending} pending`;
+    md += `${run.approved_only ? ' - approved items only' : ''}\n`;
+  }
+  md += `\n`;
+
+  md += `## Summary\n\n`;
+  md += `| Metric | Count |\n|--------|-------|\n`;
+  md += `| Critical Signals | ${criticalCount} |\n`;
+  md += `| High Signals | ${highCount} |\n`;
+  md += `| Total Signals | ${run.signals.length} |\n`;
+  md += `| Conflicts | ${run.conflicts.length} |\n`;
+  md += `| Drops | ${run.drops.length} |\n`;
+  md += `| Next Checks | ${run.next_checks.length} |\n\n`;
+
+  md += `## Inputs\n\n`;
+  for (const input of run.inputs) {
+    md += `- **${input.doc_id}**: ${input.filename} (${input.type})\n`;
+  }
+  md += `\n`;
+
+  md += `## Signals\n\n`;
+  for (const sig of run.signals) {
+    md += `### ${sig.id}: ${sig.type}\n`;
+    md += `**Severity:** ${sig.severity} | **Owner:** ${sig.owner}\n\n`;
+    md += `> ${sig.summary}\n\n`;
+    md += reviewLine(sig.review);
+    if (sig.money) {
+      md += `**Value:** ${sig.value}${formatReporting(sig.money)}\n\n`;
+    }
+    if (sig.severity_reason) {
+      md += `*Severity reason:* ${sig.severity_reason}\n\n`;
+    }
+    if (sig.evidence && sig.evidence.length > 0) {
+      md += `**Evidence:**\n`;
+      for (const ev of sig.evidence) {
+        md += `- ${ev.source} ${formatLocator(ev)}: "${ev.quote}"\n`;
+      }
+    }
+    md += `\n`;
+  }
+
+  md += `## Conflicts\n\n`;
+  for (const conf of run.conflicts) {
+    md += `### ${conf.id}: ${conf.type || conf.topic}\n`;
+    if (conf.flags && conf.flags.length) {
+      md += `**Flags:** ${conf.flags.join(', ')}\n\n`;
+    }
+    md += `**Claims:**\n`;
+    for (const claim of conf.claims || conf.contenders || []) {
+      md += `- ${claim.source} ${formatLocator(claim)}: ${claim.value}${formatReporting(claim.money)} (${claim.definition || 'unknown'}, ${claim.value_date || 'no date'})\n`;
+    }
+    md += `\n**Resolution:** ${conf.how_to_resolve || conf.resolution}\n\n`;
+    md += reviewLine(conf.review);
+  }
+
+  md += `## Drops\n\n`;
+  for (const drop of run.drops) {
+    md += `- **${drop.id}** (${drop.reason}): ${drop.what}\n`;
+    md += `  - Would fix: ${drop.would_fix}\n`;
+    if (drop.review && drop.review.status !== 'pending') md += `  - ${reviewLine(drop.review).trim()}\n`;
+  }
+  md += `\n`;
+
+  if (run.value_issues && run.value_issues.length > 0) {
+    md += `## Value Issues\n\n`;
+    for (const issue of run.value_issues) {
+      md += `- **${issue.target}** (${issue.action}): "${issue.value}" - ${issue.reason}\n`;
+    }
+    md += `\n`;
+  }
+
+  if (run.covenant) {
+    const cov = run.covenant;
+    const money = (n: number) => n.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+    md += `## Covenant Calculation\n\n`;
+    md += `*Computed ${cov.computed_at}${cov.aligned_date ? `, aligned to ${cov.aligned_date}` : ''}, in ${cov.currency}*\n\n`;
+    md += `| Figure | Amount | Value Date | Aligned |\n|--------|--------|------------|---------|\n`;
+    for (const row of cov.reconciliation) {
+      md += `| ${row.figure} | ${money(row.amount)} | ${row.value_date || '-'} | ${row.aligned ? 'yes' : 'no'} |\n`;
+    }
+    for (const diff of cov.differences) {
+      md += `| ${diff.label} | ${money(diff.amount)} | | |\n`;
+    }
+    md += `\n`;
+    for (const m of cov.metric ? [cov.metric] : cov.scenarios || []) {
+      md += `- **${m.name}** (restricted ${m.restricted_counts ? 'counts' : 'excluded'}): ${money(m.value)} vs ${money(m.threshold)} - `;
+      md += `${m.passes ? 'PASS' : 'BREACH'}, headroom ${money(m.headroom)} (${m.headroom_pct.toFixed(1)}%)\n`;
+    }
+    md += `\n`;
+  }
+
+  if (run.conflict_checks && run.conflict_checks.length > 0) {
+    md += `## Conflict Checks\n\n`;
+    for (const check of run.conflict_checks) {
+      md += `- **${check.conflict_id}** (${check.kind}): ${check.detail}\n`;
+    }
+    md += `\n`;
+  }
+
+  if (run.template_issues && run.template_issues.length > 0) {
+    md += `## Template Issues\n\n`;
+    for (const issue of run.template_issues) {
+      md += `- **${issue.check_id}** ${issue.template}.${issue.slot} (${issue.kind}): ${issue.detail}\n`;
+    }
+    md += `\n`;
+  }
+
+  if (run.dangling_refs && run.dangling_refs.length > 0) {
+    md += `## Dangling References\n\n`;
+    for (const ref of run.dangling_refs) {
+      md += `- **${ref.from}** ${ref.field} → ${ref.ref} (no such signal; removed)\n`;
+    }
+    md += `\n`;
+  }
+
+  if (run.graph_issues && run.graph_issues.length > 0) {
+    md += `## Dependency Issues\n\n`;
+    for (const issue of run.graph_issues) {
+      md += `- **${issue.kind}**: ${issue.detail}\n`;
+    }
+    md += `\n`;
+  }
+
+  if (run.severity_checks && run.severity_checks.length > 0) {
+    md += `## Severity Checks\n\n`;
+    md += `| Signal | Type | Model | Engine | Action | Rule |\n|--------|------|-------|--------|--------|------|\n`;
+    for (const check of run.severity_checks) {
+      md += `| ${check.signal_id} | ${check.type} | ${check.model_severity} | ${check.engine_severity} | ${check.action} | ${check.reason} |\n`;
+    }
+    md += `\n`;
+  }
+
+  md += `## Next Checks\n\n`;
+  for (const check of run.next_checks) {
+    md += `### ${check.priority}. ${check.template || 'check'}${check.id ? ` (${check.id})` : ''}\n`;
+    if (check.model_priority !== undefined) md += `*Model priority ${check.model_priority}, reordered by dependencies*\n\n`;
+    md += `**Owner:** ${check.owner}\n\n`;
+    md += `> ${check.question}\n\n`;
+    md += `**Done when:** ${check.done_when}\n`;
+    if (check.review && check.review.status !== 'pending') md += `\n${reviewLine(check.review)}`;
+    if (check.status) {
+      md += `\n**Status:** ${check.status}${check.assignee ? ` (${check.assignee})` : ''}${check.result ? ` - ${check.result}` : ''}\n`;
+    }
+    if (check.answer) {
+      md += `\n**Answer:** ${check.answer}\n`;
+    }
+    if (check.attachments && check.attachments.length) {
+      md += `\n**Supporting files:** ${check.attachments.join(', ')}\n`;
+    }
+    if (check.slots) {
+      md += `\n**Slots:** \`${JSON.stringify(check.slots)}\`\n`;
+    }
+    if (check.missing_slots && check.missing_slots.length) {
+      md += `\n**Missing slots:** ${check.missing_slots.join(', ')}\n`;
+    }
+    md += `\n`;
+  }
+
+  return md;
+}
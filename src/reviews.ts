@@ -0,0 +1,252 @@
+// reviews.ts - Reviewer workflow: accept, reject or edit a run's items as an overlay on the stored run, with an audit log
+
+import { readFileSync, existsSync, writeFileSync, mkdirSync, appendFileSync } from 'fs';
+import { join } from 'path';
+import { ItemReview, ReviewStatus, REVIEW_STATUSES, SEVERITIES } from './types';
+import { RunEvidencePack, packRunsDir } from './runs';
+
+export const REVIEW_KINDS = ['signal', 'conflict', 'drop', 'next_check'] as const;
+export type ReviewKind = typeof REVIEW_KINDS[number];
+
+// Fields a reviewer may edit; evidence, claims, types and IDs stay as compiled
+const EDITABLE: Record<ReviewKind, string[]> = {
+  signal: ['summary', 'severity', 'severity_reason', 'owner', 'value', 'recommended_check'],
+  conflict: ['topic', 'how_to_resolve'],
+  drop: ['what', 'detail', 'would_fix'],
+  next_check: ['question', 'owner', 'done_when'],
+};
+
+const COLLECTIONS: Record<ReviewKind, 'signals' | 'conflicts' | 'drops' | 'next_checks'> = {
+  signal: 'signals',
+  conflict: 'conflicts',
+  drop: 'drops',
+  next_check: 'next_checks',
+};
+
+// The latest review of one item of one run
+export interface ReviewState {
+  item_id: string;
+  kind: ReviewKind;
+  status: ReviewStatus;
+  reviewer: string;
+  comment?: string;
+  edits?: Record<string, string>;   // Field -> reviewed value, applied over the compiled item
+  reviewed_at: string;
+}
+
+export interface ReviewUpdate {
+  status?: string;
+  reviewer?: string;
+  comment?: string;
+  edits?: unknown;
+}
+
+// One line of the audit log: who changed what, and from what
+export interface AuditEntry {
+  at: string;
+  pack_id: string;
+  run_id: string;
+  item_id: string;
+  kind: ReviewKind;
+  reviewer: string;
+  previous_status: ReviewStatus;
+  status: ReviewStatus;
+  comment?: string;
+  changes?: Record<string, { from: unknown; to: unknown }>;
+}
+
+export type ReviewSummary = Record<ReviewStatus, number>;
+
+// Validation failures that should surface as 400s
+export class ReviewError extends Error {}
+
+// runs/<pack id>/reviews/: <run id>.json per reviewed run, and audit.jsonl for the whole pack
+function reviewsDir(packId: string): string {
+  return join(packRunsDir(packId), 'reviews');
+}
+
+function auditPath(packId: string): string {
+  return join(reviewsDir(packId), 'audit.jsonl');
+}
+
+export function loadReviews(run: RunEvidencePack): Record<string, ReviewState> {
+  const path = join(reviewsDir(run.run_meta.pack_id), `${run.run_meta.run_id}.json`);
+  if (!existsSync(path)) return {};
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (e) {
+    console.warn(`[reviews] Unreadable reviews for ${run.run_meta.run_id}:`, e instanceof Error ? e.message : e);
+    return {};
+  }
+}
+
+function saveReviews(run: RunEvidencePack, reviews: Record<string, ReviewState>): void {
+  mkdirSync(reviewsDir(run.run_meta.pack_id), { recursive: true });
+  writeFileSync(join(reviewsDir(run.run_meta.pack_id), `${run.run_meta.run_id}.json`), JSON.stringify(reviews, null, 2));
+}
+
+function findItem(run: RunEvidencePack, itemId: string): { kind: ReviewKind; item: any } | undefined {
+  for (const kind of REVIEW_KINDS) {
+    const item = run[COLLECTIONS[kind]].find((i: any) => i.id === itemId);
+    if (item) return { kind, item };
+  }
+  return undefined;
+}
+
+// Only editable fields with a string value that differs from the compiled one
+function validateEdits(kind: ReviewKind, item: any, edits: unknown): Record<string, string> {
+  if (edits === undefined || edits === null || edits === '') return {};
+  if (typeof edits !== 'object' || Array.isArray(edits)) throw new ReviewError('edits must be an object of field: value');
+
+  const valid: Record<string, string> = {};
+  for (const [field, value] of Object.entries(edits)) {
+    if (!EDITABLE[kind].includes(field)) {
+      throw new ReviewError(`Field "${field}" of a ${kind} cannot be edited (${EDITABLE[kind].join(', ')})`);
+    }
+    if (typeof value !== 'string' && typeof value !== 'number') throw new ReviewError(`Edit of "${field}" must be text`);
+    if (field === 'severity' && !(SEVERITIES as readonly string[]).includes(String(value))) {
+      throw new ReviewError(`Invalid severity "${value}" (${SEVERITIES.join(', ')})`);
+    }
+    if (String(value) !== String(item[field] ?? '')) valid[field] = String(value);
+  }
+  return valid;
+}
+
+// Record a review of one signal, conflict, drop or next check of a stored run. The run file is not touched.
+export function reviewItem(run: RunEvidencePack, itemId: string, update: ReviewUpdate): ReviewState {
+  const found = findItem(run, itemId);
+  if (!found) throw new ReviewError(`Unknown item "${itemId}"`);
+
+  const reviewer = String(update.reviewer || '').trim();
+  if (!reviewer) throw new ReviewError('reviewer is required');
+  if (update.status !== undefined && !(REVIEW_STATUSES as readonly string[]).includes(update.status)) {
+    throw new ReviewError(`Invalid status "${update.status}" (${REVIEW_STATUSES.join(', ')})`);
+  }
+
+  const reviews = loadReviews(run);
+  const previous = reviews[itemId];
+  const edits = validateEdits(found.kind, found.item, update.edits);
+  const hasEdits = Object.keys(edits).length > 0;
+
+  // Edits make the item "edited"; a comment alone keeps the previous edits. Any other status discards them.
+  const status = (update.status as ReviewStatus) || (hasEdits ? 'edited' : previous?.status || 'pending');
+  if (hasEdits && status !== 'edited') throw new ReviewError(`Edits need status "edited", not "${status}"`);
+  const kept = status === 'edited' ? (hasEdits ? edits : previous?.edits || {}) : {};
+  if (status === 'edited' && Object.keys(kept).length === 0) throw new ReviewError('Status "edited" needs at least one changed field in edits');
+
+  const comment = update.comment ?? previous?.comment;
+  const now = new Date().toISOString();
+  const state: ReviewState = {
+    item_id: itemId,
+    kind: found.kind,
+    status,
+    reviewer,
+    ...(comment ? { comment } : {}),
+    ...(Object.keys(kept).length ? { edits: kept } : {}),
+    reviewed_at: now,
+  };
+
+  // Effective values before and after, for every field either review edits
+  const changes: AuditEntry['changes'] = {};
+  for (const field of new Set([...Object.keys(previous?.edits || {}), ...Object.keys(kept)])) {
+    const from = previous?.edits?.[field] ?? found.item[field];
+    const to = kept[field] ?? found.item[field];
+    if (String(from ?? '') !== String(to ?? '')) changes[field] = { from, to };
+  }
+
+  reviews[itemId] = state;
+  saveReviews(run, reviews);
+  appendAudit({
+    at: now,
+    pack_id: run.run_meta.pack_id,
+    run_id: run.run_meta.run_id,
+    item_id: itemId,
+    kind: found.kind,
+    reviewer,
+    previous_status: previous?.status || 'pending',
+    status,
+    ...(update.comment ? { comment: update.comment } : {}),
+    ...(Object.keys(changes).length ? { changes } : {}),
+  });
+
+  console.log(`[reviews] ${run.run_meta.run_id} ${itemId}: ${previous?.status || 'pending'} -> ${status} by ${reviewer}`);
+  return state;
+}
+
+function appendAudit(entry: AuditEntry): void {
+  mkdirSync(reviewsDir(entry.pack_id), { recursive: true });
+  appendFileSync(auditPath(entry.pack_id), JSON.stringify(entry) + '\n');
+}
+
+// Oldest first; optionally only one run's entries
+export function loadAuditLog(packId: string, runId?: string): AuditEntry[] {
+  const path = auditPath(packId);
+  if (!existsSync(path)) return [];
+  return readFileSync(path, 'utf-8')
+    .split('\n')
+    .filter(line => line.trim())
+    .flatMap(line => {
+      try {
+        return [JSON.parse(line) as AuditEntry];
+      } catch {
+        console.warn(`[reviews] Skipping unreadable audit line for ${packId}`);
+        return [];
+      }
+    })
+    .filter(entry => !runId || entry.run_id === runId);
+}
+
+// One row per changed field (or one row for a status change without edits)
+export function auditCsv(entries: AuditEntry[]): string {
+  const cell = (value: unknown) => {
+    const text = value === undefined || value === null ? '' : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const rows: unknown[][] = [['at', 'pack_id', 'run_id', 'item_id', 'kind', 'reviewer', 'previous_status', 'status', 'comment', 'field', 'from', 'to']];
+
+  for (const e of entries) {
+    const base = [e.at, e.pack_id, e.run_id, e.item_id, e.kind, e.reviewer, e.previous_status, e.status, e.comment];
+    const changes = Object.entries(e.changes || {});
+    if (changes.length === 0) rows.push([...base, '', '', '']);
+    for (const [field, { from, to }] of changes) rows.push([...base, field, from, to]);
+  }
+  return rows.map(row => row.map(cell).join(',')).join('\n') + '\n';
+}
+
+// The run with every item's review attached and edits applied over the compiled values.
+// approvedOnly keeps accepted and edited items, and drops blocker_for references to signals that were left out.
+export function reviewedRun(run: RunEvidencePack, approvedOnly = false): RunEvidencePack {
+  const reviews = loadReviews(run);
+  const summary: ReviewSummary = { pending: 0, accepted: 0, rejected: 0, edited: 0 };
+
+  const overlay = (item: any) => {
+    const state = item.id ? reviews[item.id] : undefined;
+    const review: ItemReview = state
+      ? {
+          status: state.status,
+          reviewer: state.reviewer,
+          ...(state.comment ? { comment: state.comment } : {}),
+          reviewed_at: state.reviewed_at,
+          ...(state.edits ? { original: Object.fromEntries(Object.keys(state.edits).map(f => [f, item[f]])) } : {}),
+        }
+      : { status: 'pending' };
+    summary[review.status]++;
+    return { ...item, ...(state?.edits || {}), review };
+  };
+  const approved = (item: any) => !approvedOnly || item.review.status === 'accepted' || item.review.status === 'edited';
+
+  const signals = run.signals.map(overlay).filter(approved);
+  const kept = new Set(signals.map((s: any) => s.id));
+
+  return {
+    ...run,
+    signals: approvedOnly
+      ? signals.map((s: any) => (s.blocker_for ? { ...s, blocker_for: s.blocker_for.filter((id: string) => kept.has(id)) } : s))
+      : signals,
+    conflicts: run.conflicts.map(overlay).filter(approved),
+    drops: run.drops.map(overlay).filter(approved),
+    next_checks: run.next_checks.map(overlay).filter(approved),
+    review_summary: summary,
+    approved_only: approvedOnly,
+  };
+}
@@ -0,0 +1,226 @@
+// runs.ts - Run evidence packs stored by run_id, with listing, filters and retention
+
+import { readFileSync, existsSync, writeFileSync, mkdirSync, readdirSync, rmSync } from 'fs';
+import { join } from 'path';
+import { GroundingSummary } from './grounding';
+import { InputType } from './ingest';
+import { ValueIssue } from './numbers';
+import { SeverityCheck } from './severity';
+import { SchemaIssue } from './schema';
+import { ConflictCheck } from './conflicts';
+import { TemplateIssue } from './templates';
+import { DanglingRef } from './ids';
+import { GraphIssue } from './graph';
+import { ExtractionMode } from './mapreduce';
+import { CovenantResult } from './covenant';
+import { PROJECT_ROOT, ID_PATTERN } from './packs';
+import { ReviewSummary } from './reviews';
+
+// Run Evidence Pack schema
+export interface RunEvidencePack {
+  run_meta: {
+    run_id: string;
+    pack_id: string;
+    provider?: string;
+    model: string;
+    config_hash: string;
+    prompt_version?: string;     // PROMPT_VERSION in prompt.ts
+    cache_key?: string;     // Compile cache key (inputs + config + provider + model), see cache.ts
+    inputs_hash?: string;   // Every pack file hashed for the key, including any that failed to ingest
+    extraction_mode?: ExtractionMode;
+    reporting_currency?: string;
+    fx_version?: string;
+    templates_version?: string;  // check-templates.json version
+    templates_hash?: string;     // Content of the templates the profile uses, see compile.ts
+    profile?: string;            // Domain profile ID (profiles/<id>.json)
+    profile_version?: string;
+    profile_hash?: string;       // Content of the profile
+    created_at: string;
+  };
+  inputs: {
+    doc_id: string;
+    filename: string;
+    sha256: string;
+    type: InputType;
+    page_count?: number;
+  }[];
+  signals: any[];
+  conflicts: any[];
+  drops: any[];
+  next_checks: any[];
+  evidence: {
+    id: string;
+    doc_id: string;
+    page?: number;
+    bbox?: number[];
+    line?: number;
+    sheet?: string;
+    cell?: string;
+    quote: string;
+    match_score?: number;
+    matched_page?: number;
+  }[];
+  grounding?: GroundingSummary;
+  value_issues?: ValueIssue[];
+  severity_checks?: SeverityCheck[];
+  conflict_checks?: ConflictCheck[];
+  template_issues?: TemplateIssue[];
+  schema_issues?: SchemaIssue[];
+  id_map?: Record<string, string>;   // Model-assigned ID -> stable ID
+  dangling_refs?: DanglingRef[];
+  graph_issues?: GraphIssue[];       // Cycles and broken references in the dependency graph, see graph.ts
+  covenant?: CovenantResult;         // Read views only: latest covenant calculator result, stored beside the run (covenant.ts)
+  // Reviewed views only (exports), never stored: counts per review status, and whether unapproved items were left out
+  review_summary?: ReviewSummary;
+  approved_only?: boolean;
+}
+
+// What GET /runs lists - run_meta plus headline counts
+export interface RunSummary {
+  run_id: string;
+  pack_id: string;
+  provider?: string;
+  model: string;
+  config_hash: string;
+  prompt_version?: string;
+  cache_key?: string;
+  created_at: string;
+  signals: number;
+  critical: number;
+  high: number;
+  conflicts: number;
+  drops: number;
+}
+
+export interface RunFilter {
+  pack?: string;
+  model?: string;
+  config_hash?: string;
+  cache_key?: string;
+  limit?: number;
+}
+
+// Every run is kept as runs/<pack id>/<run id>.json
+const RUNS_DIR = join(PROJECT_ROOT, 'runs');
+
+// Retention: keep at most N runs per pack and/or drop runs older than N days (0 = keep everything)
+const KEEP_PER_PACK = Number(process.env.RUN_RETENTION_COUNT || 0);
+const MAX_AGE_DAYS = Number(process.env.RUN_RETENTION_DAYS || 0);
+
+const RUN_ID_PATTERN = /^[a-z0-9][a-z0-9_.-]{0,127}$/i;
+
+// The pack ID becomes a path segment, so anything but a valid ID ("../..") is refused
+export function packRunsDir(packId: string): string {
+  if (!ID_PATTERN.test(packId)) throw new Error(`Invalid pack ID "${packId}"`);
+  return join(RUNS_DIR, packId);
+}
+
+// Sortable and filename-safe: 2026-01-26T091512345Z_agrinova_w04
+export function newRunId(packId: string, createdAt: string): string {
+  const base = `${createdAt.replace(/[:.]/g, '')}_${packId}`;
+  let runId = base;
+  for (let n = 2; existsSync(join(packRunsDir(packId), `${runId}.json`)); n++) {
+    runId = `${base}_${n}`;
+  }
+  return runId;
+}
+
+export function saveRun(run: RunEvidencePack): string {
+  const dir = packRunsDir(run.run_meta.pack_id);
+  mkdirSync(dir, { recursive: true });
+
+  const path = join(dir, `${run.run_meta.run_id}.json`);
+  writeFileSync(path, JSON.stringify(run, null, 2));
+  applyRetention(run.run_meta.pack_id);
+  return path;
+}
+
+function readRun(path: string): RunEvidencePack | undefined {
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (e) {
+    console.warn(`[runs] Skipping unreadable run ${path}:`, e instanceof Error ? e.message : e);
+    return undefined;
+  }
+}
+
+function runFiles(packId: string): string[] {
+  const dir = packRunsDir(packId);
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir).filter(f => f.endsWith('.json')).map(f => join(dir, f));
+}
+
+function packIds(): string[] {
+  if (!existsSync(RUNS_DIR)) return [];
+  return readdirSync(RUNS_DIR, { withFileTypes: true })
+    .filter(d => d.isDirectory() && ID_PATTERN.test(d.name))
+    .map(d => d.name);
+}
+
+function summarize(run: RunEvidencePack): RunSummary {
+  return {
+    ...run.run_meta,
+    signals: run.signals.length,
+    critical: run.signals.filter((s: any) => s.severity === 'critical').length,
+    high: run.signals.filter((s: any) => s.severity === 'high').length,
+    conflicts: run.conflicts.length,
+    drops: run.drops.length,
+  };
+}
+
+// Newest first
+export function listRuns(filter: RunFilter = {}): RunSummary[] {
+  if (filter.pack && !ID_PATTERN.test(filter.pack)) return [];
+  const packs = filter.pack ? [filter.pack] : packIds();
+  const summaries: RunSummary[] = [];
+
+  for (const packId of packs) {
+    for (const path of runFiles(packId)) {
+      const run = readRun(path);
+      if (!run?.run_meta) continue;
+      if (filter.model && run.run_meta.model !== filter.model) continue;
+      if (filter.config_hash && run.run_meta.config_hash !== filter.config_hash) continue;
+      if (filter.cache_key && run.run_meta.cache_key !== filter.cache_key) continue;
+      summaries.push(summarize(run));
+    }
+  }
+
+  summaries.sort((a, b) => b.created_at.localeCompare(a.created_at) || b.run_id.localeCompare(a.run_id));
+  return filter.limit ? summaries.slice(0, filter.limit) : summaries;
+}
+
+export function getRun(runId: string): RunEvidencePack | undefined {
+  if (!RUN_ID_PATTERN.test(runId)) return undefined;
+
+  for (const packId of packIds()) {
+    const path = join(packRunsDir(packId), `${runId}.json`);
+    if (existsSync(path)) return readRun(path);
+  }
+  return undefined;
+}
+
+// Most recent run for a pack; falls back to the pre-history runs/<pack>_latest.json
+export function latestRun(packId: string): RunEvidencePack | undefined {
+  if (!ID_PATTERN.test(packId)) return undefined;
+  const [latest] = listRuns({ pack: packId, limit: 1 });
+  if (latest) return getRun(latest.run_id);
+
+  const legacyPath = join(RUNS_DIR, `${packId}_latest.json`);
+  return existsSync(legacyPath) ? readRun(legacyPath) : undefined;
+}
+
+function applyRetention(packId: string): void {
+  if (!KEEP_PER_PACK && !MAX_AGE_DAYS) return;
+
+  const cutoff = MAX_AGE_DAYS ? new Date(Date.now() - MAX_AGE_DAYS * 86400000).toISOString() : '';
+  const runs = listRuns({ pack: packId });
+
+  runs.forEach((run, i) => {
+    // Never delete the run that was just written
+    if (i === 0) return;
+    if ((KEEP_PER_PACK && i >= KEEP_PER_PACK) || (cutoff && run.created_at < cutoff)) {
+      rmSync(join(packRunsDir(packId), `${run.run_id}.json`), { force: true });
+      console.log(`[runs] Retention removed ${run.run_id}`);
+    }
+  });
+}
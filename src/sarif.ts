@@ -0,0 +1,162 @@
+// sarif.ts - A run as a SARIF 2.1.0-style log: one result per signal, conflict and drop, located by its evidence
+
+import { RunEvidencePack } from './runs';
+import { DomainProfile } from './profiles';
+import { SourceDocument, resolveSource } from './grounding';
+import { Grounding, ItemReview, Severity } from './types';
+
+export interface SarifLocation {
+  physicalLocation: {
+    artifactLocation: { uri: string; index?: number };
+    region: { startLine?: number; snippet: { text: string } };
+  };
+  // Locators SARIF has no field for
+  properties?: { doc_id?: string; page?: number; bbox?: number[]; sheet?: string; cell?: string; grounding?: string };
+}
+
+export interface SarifResult {
+  ruleId: string;
+  kind: 'fail' | 'informational';
+  level: 'error' | 'warning' | 'note';
+  message: { text: string };
+  locations: SarifLocation[];
+  partialFingerprints: { stableId: string };   // S-/C-/D- IDs stay the same across runs of unchanged findings
+  suppressions?: { kind: 'external'; status: 'accepted'; justification?: string }[];
+  properties: Record<string, unknown>;
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: '2.1.0';
+  runs: {
+    tool: { driver: { name: string; rules: { id: string; shortDescription: { text: string } }[] } };
+    automationDetails: { id: string };
+    invocations: { executionSuccessful: boolean; endTimeUtc: string }[];
+    artifacts: { location: { uri: string }; hashes: { 'sha-256': string }; properties: { doc_id: string; type: string } }[];
+    results: SarifResult[];
+    properties: Record<string, unknown>;
+  }[];
+}
+
+const LEVELS: Record<Severity, SarifResult['level']> = { critical: 'error', high: 'error', medium: 'warning', low: 'note' };
+
+// Evidence spans and conflict claims share these locator fields
+interface Located {
+  source: string;
+  quote: string;
+  page?: number;
+  line?: number;
+  bbox?: number[];
+  sheet?: string;
+  cell?: string;
+  grounding?: Grounding;
+}
+
+function toLocation(span: Located, run: RunEvidencePack): SarifLocation {
+  const docs: SourceDocument[] = run.inputs.map(input => ({ ...input, pages: [] }));
+  const doc = resolveSource(span.source, docs);
+  // Where grounding found the quote wins over where the model said it was
+  const page = span.grounding?.matched_page ?? span.page;
+  const line = span.grounding?.matched_line ?? span.line;
+
+  const properties = {
+    ...(doc ? { doc_id: doc.doc_id } : {}),
+    ...(page ? { page } : {}),
+    ...(span.bbox ? { bbox: span.bbox } : {}),
+    ...(span.sheet ? { sheet: span.sheet } : {}),
+    ...(span.cell ? { cell: span.cell } : {}),
+    ...(span.grounding ? { grounding: span.grounding.status } : {}),
+  };
+  return {
+    physicalLocation: {
+      artifactLocation: doc ? { uri: doc.filename, index: docs.indexOf(doc) } : { uri: span.source },
+      region: { ...(line ? { startLine: line } : {}), snippet: { text: span.quote } },
+    },
+    ...(Object.keys(properties).length ? { properties } : {}),
+  };
+}
+
+// A rejected review suppresses the result instead of removing it, so the tooling keeps the history
+function suppressions(review: ItemReview | undefined): Pick<SarifResult, 'suppressions'> {
+  if (review?.status !== 'rejected') return {};
+  return { suppressions: [{ kind: 'external', status: 'accepted', ...(review.comment ? { justification: review.comment } : {}) }] };
+}
+
+export function toSarif(run: RunEvidencePack, profile?: DomainProfile): SarifLog {
+  const results: SarifResult[] = [
+    ...run.signals.map((s): SarifResult => ({
+      ruleId: s.type,
+      kind: 'fail',
+      level: LEVELS[s.severity as Severity] || 'warning',
+      message: { text: s.summary },
+      locations: (s.evidence || []).map((e: Located) => toLocation(e, run)),
+      partialFingerprints: { stableId: s.id },
+      ...suppressions(s.review),
+      properties: {
+        category: 'signal',
+        severity: s.severity,
+        owner: s.owner,
+        ...(s.value !== undefined ? { value: s.value } : {}),
+        ...(s.blocker_for?.length ? { blocker_for: s.blocker_for } : {}),
+        ...(s.review ? { review_status: s.review.status } : {}),
+      },
+    })),
+    ...run.conflicts.map((c): SarifResult => ({
+      ruleId: c.type,
+      kind: 'fail',
+      level: c.flags?.includes('BLOCKER') ? 'error' : 'warning',
+      message: { text: `${c.topic}: ${(c.claims || []).map((cl: any) => `${cl.source} says ${cl.value}`).join('; ')}` },
+      locations: (c.claims || []).map((cl: Located) => toLocation(cl, run)),
+      partialFingerprints: { stableId: c.id },
+      ...suppressions(c.review),
+      properties: {
+        category: 'conflict',
+        ...(c.flags?.length ? { flags: c.flags } : {}),
+        how_to_resolve: c.how_to_resolve,
+        ...(c.review ? { review_status: c.review.status } : {}),
+      },
+    })),
+    ...run.drops.map((d): SarifResult => ({
+      ruleId: `drop.${d.reason}`,
+      kind: 'informational',
+      level: 'note',
+      message: { text: `${d.what}: ${d.detail}` },
+      locations: [],
+      partialFingerprints: { stableId: d.id },
+      ...suppressions(d.review),
+      properties: { category: 'drop', would_fix: d.would_fix, ...(d.review ? { review_status: d.review.status } : {}) },
+    })),
+  ];
+
+  const describe = (ruleId: string) =>
+    profile?.signal_types[ruleId] || profile?.conflict_types[ruleId] ||
+    (ruleId.startsWith('drop.') ? `Could not be extracted: ${ruleId.slice(5)}` : ruleId);
+
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'signal-compiler',
+          rules: [...new Set(results.map(r => r.ruleId))].map(id => ({ id, shortDescription: { text: describe(id) } })),
+        },
+      },
+      automationDetails: { id: `${run.run_meta.pack_id}/${run.run_meta.run_id}` },
+      invocations: [{ executionSuccessful: true, endTimeUtc: run.run_meta.created_at }],
+      artifacts: run.inputs.map(input => ({
+        location: { uri: input.filename },
+        hashes: { 'sha-256': input.sha256 },
+        properties: { doc_id: input.doc_id, type: input.type },
+      })),
+      results,
+      properties: {
+        model: run.run_meta.model,
+        config_hash: run.run_meta.config_hash,
+        ...(run.run_meta.prompt_version ? { prompt_version: run.run_meta.prompt_version } : {}),
+        ...(run.run_meta.profile ? { profile: `${run.run_meta.profile}:${run.run_meta.profile_version}` } : {}),
+        ...(run.approved_only ? { approved_only: true } : {}),
+      },
+    }],
+  };
+}
@@ -0,0 +1,408 @@
+// schema.ts - Runtime validation of the model response, derived from types.ts
+
+import { ResponseSchema, SchemaType } from '@google/generative-ai';
+import {
+  GeminiSignalResponse, Signal, Conflict, ConflictClaim, Drop, NextCheck, EvidenceSpan,
+  CONFLICT_FLAGS, SEVERITIES, DROP_REASONS,
+  CASH_DEFINITIONS, ConflictFlag
+} from './types';
+import { TemplateRegistry, templateIds, slotNames } from './templates';
+import { DomainProfile } from './profiles';
+
+// One place where the response does not match the types
+export interface SchemaViolation {
+  path: string;      // e.g. "signals[2].type"
+  message: string;
+  value?: unknown;
+}
+
+// A violation that survived repair, and what we did about it
+export interface SchemaIssue extends SchemaViolation {
+  action: 'coerced' | 'dropped';
+}
+
+const str = (description?: string): ResponseSchema => ({ type: SchemaType.STRING, description });
+const int = (description?: string): ResponseSchema => ({ type: SchemaType.INTEGER, description });
+const oneOf = (values: readonly string[]): ResponseSchema => ({ type: SchemaType.STRING, format: 'enum', enum: [...values] });
+const list = (items: ResponseSchema): ResponseSchema => ({ type: SchemaType.ARRAY, items });
+
+// Passed to generationConfig so the model is constrained up front; types come from the profile, templates and slot names from the registry
+export function buildResponseSchema(profile: DomainProfile, registry: TemplateRegistry): ResponseSchema {
+  const templates = templateIds(registry);
+  const slots = slotNames(registry);
+
+  return {
+    type: SchemaType.OBJECT,
+    properties: {
+      signals: list({
+        type: SchemaType.OBJECT,
+        properties: {
+          id: str(),
+          type: oneOf(Object.keys(profile.signal_types)),
+          summary: str(),
+          severity: oneOf(SEVERITIES),
+          severity_reason: str(),
+          owner: str(),
+          value: str(),
+          unit: str(),
+          evidence: list({
+            type: SchemaType.OBJECT,
+            properties: {
+              source: str('doc_id of the source document'),
+              quote: str('Exact text from the source'),
+              page: int('1-indexed page number'),
+              line: int('1-indexed line number for text and email documents'),
+              bbox: list({ type: SchemaType.NUMBER, description: '0-1 normalized' }),
+              sheet: str('Sheet name for spreadsheets'),
+              cell: str('Cell reference for spreadsheets, e.g. B4'),
+            },
+            required: ['source', 'quote'],
+          }),
+          recommended_check: str(),
+          blocker_for: list(str()),
+        },
+        required: ['id', 'type', 'summary', 'severity', 'owner', 'evidence', 'recommended_check'],
+      }),
+      conflicts: list({
+        type: SchemaType.OBJECT,
+        properties: {
+          id: str(),
+          type: oneOf(Object.keys(profile.conflict_types)),
+          topic: str(),
+          claims: list({
+            type: SchemaType.OBJECT,
+            properties: {
+              source: str(),
+              value: str(),
+              quote: str(),
+              page: int(),
+              line: int(),
+              sheet: str(),
+              cell: str(),
+              definition: oneOf(CASH_DEFINITIONS),
+              value_date: str('ISO date'),
+            },
+            required: ['source', 'value', 'quote'],
+          }),
+          how_to_resolve: str(),
+          flags: list(oneOf(CONFLICT_FLAGS)),
+        },
+        required: ['id', 'type', 'topic', 'claims', 'how_to_resolve'],
+      }),
+      drops: list({
+        type: SchemaType.OBJECT,
+        properties: {
+          id: str(),
+          what: str(),
+          reason: oneOf(DROP_REASONS),
+          detail: str(),
+          would_fix: str(),
+        },
+        required: ['id', 'what', 'reason', 'detail', 'would_fix'],
+      }),
+      next_checks: list({
+        type: SchemaType.OBJECT,
+        properties: {
+          priority: int(),
+          owner: str(),
+          template: templates.length ? oneOf(templates) : str(),
+          question: str(),
+          done_when: str(),
+          ...(slots.length ? {
+            slots: {
+              type: SchemaType.OBJECT,
+              properties: Object.fromEntries(slots.map(k => [k, str()])),
+            },
+          } : {}),
+        },
+        required: ['priority', 'owner', 'template', 'question', 'done_when'],
+      }),
+    },
+    required: ['signals', 'conflicts', 'drops', 'next_checks'],
+  };
+}
+
+const isObject = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isText = (v: unknown): v is string => typeof v === 'string' && v.trim().length > 0;
+const isPage = (v: unknown): v is number => Number.isInteger(v) && (v as number) >= 1;
+
+// Walk the raw response, coercing what can be fixed and dropping what cannot.
+// Every deviation from types.ts is reported, so this doubles as the validator.
+export function normalizeResponse(
+  raw: unknown,
+  profile: DomainProfile,
+  registry: TemplateRegistry
+): { response: GeminiSignalResponse; issues: SchemaIssue[] } {
+  const issues: SchemaIssue[] = [];
+  const drops: Drop[] = [];
+  const coerced = (path: string, message: string, value?: unknown) => issues.push({ path, message, value, action: 'coerced' });
+  const dropped = (path: string, message: string, value?: unknown) => issues.push({ path, message, value, action: 'dropped' });
+  // A removed signal, conflict, claim or check also becomes a drop, so the run shows what was lost
+  const rejected = (path: string, message: string, value: unknown, drop: Omit<Drop, 'reason'>) => {
+    dropped(path, message, value);
+    drops.push({ id: drop.id, what: drop.what, reason: 'SCHEMA_VIOLATION', detail: drop.detail, would_fix: drop.would_fix });
+  };
+  const signalTypes = Object.keys(profile.signal_types);
+  const conflictTypes = Object.keys(profile.conflict_types);
+
+  const root: Record<string, any> = isObject(raw) ? raw : {};
+  if (!isObject(raw)) dropped('', 'Response is not a JSON object');
+
+  const arrayAt = (key: string): any[] => {
+    if (Array.isArray(root[key])) return root[key];
+    coerced(key, 'Missing or not an array', root[key]);
+    return [];
+  };
+
+  // Signals
+  const signals: Signal[] = [];
+  arrayAt('signals').forEach((s, i) => {
+    const path = `signals[${i}]`;
+    if (!isObject(s)) {
+      return rejected(path, 'Signal is not an object', s, {
+        id: `D_S${i + 1}`, what: `Signal ${i + 1}`, detail: 'Signal is not an object', would_fix: 'Re-run the compile',
+      });
+    }
+
+    const id = isText(s.id) ? s.id : `S${i + 1}`;
+    if (!isText(s.id)) coerced(`${path}.id`, 'Missing id', s.id);
+
+    if (!signalTypes.includes(s.type)) {
+      return rejected(`${path}.type`, 'Unknown signal type', s.type, {
+        id: `D_${id}`, what: s.summary || id, detail: `Unknown signal type "${s.type}"`, would_fix: `Map the finding to a ${profile.name} signal type`,
+      });
+    }
+    if (!isText(s.summary)) {
+      return rejected(`${path}.summary`, 'Missing summary', s.summary, {
+        id: `D_${id}`, what: `${s.type} signal ${id}`, detail: 'Signal has no summary', would_fix: 'Re-run the compile',
+      });
+    }
+
+    let severity = typeof s.severity === 'string' ? s.severity.toLowerCase() : s.severity;
+    if (!SEVERITIES.includes(severity)) {
+      coerced(`${path}.severity`, 'Unknown severity, defaulted to medium', s.severity);
+      severity = 'medium';
+    } else if (severity !== s.severity) {
+      coerced(`${path}.severity`, 'Severity not lowercase', s.severity);
+    }
+
+    const evidence: EvidenceSpan[] = [];
+    if (!Array.isArray(s.evidence)) coerced(`${path}.evidence`, 'Missing or not an array', s.evidence);
+    (Array.isArray(s.evidence) ? s.evidence : []).forEach((ev: any, j: number) => {
+      const evPath = `${path}.evidence[${j}]`;
+      if (!isObject(ev) || !isText(ev.source) || !isText(ev.quote)) {
+        return rejected(evPath, 'Evidence span needs source and quote', ev, {
+          id: `D_${id}_e${j + 1}`,
+          what: `${s.summary}: evidence${isObject(ev) && isText(ev.source) ? ` from ${ev.source}` : ` ${j + 1}`}`,
+          detail: 'Evidence span has no source or quote',
+          would_fix: 'Quote the source passage that supports this signal',
+        });
+      }
+      const span: EvidenceSpan = { source: ev.source, quote: ev.quote };
+      if (ev.page !== undefined) {
+        if (isPage(ev.page)) span.page = ev.page;
+        else coerced(`${evPath}.page`, 'Page is not a positive integer', ev.page);
+      }
+      if (ev.line !== undefined) {
+        if (isPage(ev.line)) span.line = ev.line;
+        else coerced(`${evPath}.line`, 'Line is not a positive integer', ev.line);
+      }
+      if (typeof ev.sheet === 'string') span.sheet = ev.sheet;
+      if (typeof ev.cell === 'string') span.cell = ev.cell;
+      if (ev.bbox !== undefined) {
+        if (Array.isArray(ev.bbox) && ev.bbox.length === 4 && ev.bbox.every((n: unknown) => typeof n === 'number')) {
+          const clamped = ev.bbox.map((n: number) => Math.min(1, Math.max(0, n))) as EvidenceSpan['bbox'];
+          if (clamped!.some((n, k) => n !== ev.bbox[k])) coerced(`${evPath}.bbox`, 'bbox values clamped to 0-1', ev.bbox);
+          span.bbox = clamped;
+        } else {
+          coerced(`${evPath}.bbox`, 'bbox must be 4 numbers, removed', ev.bbox);
+        }
+      }
+      evidence.push(span);
+    });
+
+    const signal: Signal = {
+      id,
+      type: s.type,
+      summary: s.summary,
+      severity,
+      owner: isText(s.owner) ? s.owner : 'Unassigned',
+      evidence,
+      recommended_check: typeof s.recommended_check === 'string' ? s.recommended_check : '',
+    };
+    if (!isText(s.owner)) coerced(`${path}.owner`, 'Missing owner', s.owner);
+    if (typeof s.recommended_check !== 'string') coerced(`${path}.recommended_check`, 'Missing recommended_check', s.recommended_check);
+    if (typeof s.severity_reason === 'string') signal.severity_reason = s.severity_reason;
+    if (typeof s.value === 'string' || typeof s.value === 'number') signal.value = s.value;
+    if (typeof s.unit === 'string') signal.unit = s.unit;
+    if (s.blocker_for !== undefined) {
+      if (Array.isArray(s.blocker_for) && s.blocker_for.every(isText)) signal.blocker_for = s.blocker_for;
+      else coerced(`${path}.blocker_for`, 'blocker_for must be a list of IDs, removed', s.blocker_for);
+    }
+    signals.push(signal);
+  });
+
+  // Conflicts
+  const conflicts: Conflict[] = [];
+  arrayAt('conflicts').forEach((c, i) => {
+    const path = `conflicts[${i}]`;
+    if (!isObject(c)) {
+      return rejected(path, 'Conflict is not an object', c, {
+        id: `D_C${i + 1}`, what: `Conflict ${i + 1}`, detail: 'Conflict is not an object', would_fix: 'Re-run the compile',
+      });
+    }
+
+    const id = isText(c.id) ? c.id : `C${i + 1}`;
+    if (!isText(c.id)) coerced(`${path}.id`, 'Missing id', c.id);
+
+    if (!conflictTypes.includes(c.type)) {
+      return rejected(`${path}.type`, 'Unknown conflict type', c.type, {
+        id: `D_${id}`, what: c.topic || String(c.type), detail: `Unknown conflict type "${c.type}"`, would_fix: `Map the conflict to the ${profile.name} taxonomy`,
+      });
+    }
+
+    let rawClaims = c.claims;
+    if (!Array.isArray(rawClaims) && Array.isArray(c.contenders)) {
+      coerced(`${path}.claims`, 'Used "contenders" instead of "claims"');
+      rawClaims = c.contenders;
+    }
+    const claims: ConflictClaim[] = [];
+    (Array.isArray(rawClaims) ? rawClaims : []).forEach((cl: any, j: number) => {
+      const clPath = `${path}.claims[${j}]`;
+      const claimDrop = (detail: string) => ({
+        id: `D_${id}_${j + 1}`,
+        what: `${isText(c.topic) ? c.topic : c.type}: claim${isObject(cl) && isText(cl.source) ? ` from ${cl.source}` : ` ${j + 1}`}`,
+        detail,
+        would_fix: 'Quote the source that states this figure',
+      });
+      if (!isObject(cl) || !isText(cl.source) || !isText(cl.quote)) {
+        return rejected(clPath, 'Claim needs source and quote', cl, claimDrop('Claim has no source or quote'));
+      }
+      if (typeof cl.value !== 'string' && typeof cl.value !== 'number') {
+        return rejected(`${clPath}.value`, 'Claim has no value', cl.value, claimDrop('Claim has no value'));
+      }
+      if (typeof cl.value === 'number') coerced(`${clPath}.value`, 'Numeric value converted to string', cl.value);
+
+      const claim: ConflictClaim = { source: cl.source, value: String(cl.value), quote: cl.quote };
+      if (cl.page !== undefined) {
+        if (isPage(cl.page)) claim.page = cl.page;
+        else coerced(`${clPath}.page`, 'Page is not a positive integer', cl.page);
+      }
+      if (isPage(cl.line)) claim.line = cl.line;
+      if (typeof cl.sheet === 'string') claim.sheet = cl.sheet;
+      if (typeof cl.cell === 'string') claim.cell = cl.cell;
+      if (cl.definition !== undefined) {
+        const definition = typeof cl.definition === 'string' ? cl.definition.toLowerCase() : cl.definition;
+        if (CASH_DEFINITIONS.includes(definition)) {
+          claim.definition = definition;
+          if (definition !== cl.definition) coerced(`${clPath}.definition`, 'Definition not lowercase', cl.definition);
+        } else {
+          coerced(`${clPath}.definition`, 'Unknown cash definition, set to unknown', cl.definition);
+          claim.definition = 'unknown';
+        }
+      }
+      if (typeof cl.value_date === 'string') claim.value_date = cl.value_date;
+      claims.push(claim);
+    });
+
+    let howToResolve = c.how_to_resolve;
+    if (!isText(howToResolve)) {
+      howToResolve = isText(c.resolution) ? c.resolution : '';
+      coerced(`${path}.how_to_resolve`, isText(c.resolution) ? 'Used "resolution" instead of "how_to_resolve"' : 'Missing how_to_resolve');
+    }
+
+    const conflict: Conflict = {
+      id,
+      type: c.type,
+      topic: isText(c.topic) ? c.topic : c.type,
+      claims,
+      how_to_resolve: howToResolve,
+    };
+    if (!isText(c.topic)) coerced(`${path}.topic`, 'Missing topic', c.topic);
+    if (c.flags !== undefined) {
+      const flags = Array.isArray(c.flags) ? c.flags : [];
+      conflict.flags = flags.filter((f: unknown): f is ConflictFlag => CONFLICT_FLAGS.includes(f as ConflictFlag));
+      if (conflict.flags.length !== flags.length || !Array.isArray(c.flags)) {
+        coerced(`${path}.flags`, 'Unknown flags removed', c.flags);
+      }
+    }
+    conflicts.push(conflict);
+  });
+
+  // Drops reported by the model
+  arrayAt('drops').forEach((d, i) => {
+    const path = `drops[${i}]`;
+    if (!isObject(d) || !isText(d.what)) return dropped(path, 'Drop needs a "what"', d);
+
+    let reason = d.reason;
+    if (!DROP_REASONS.includes(reason)) {
+      coerced(`${path}.reason`, 'Unknown drop reason, defaulted to AMBIGUOUS', d.reason);
+      reason = 'AMBIGUOUS';
+    }
+    drops.push({
+      id: isText(d.id) ? d.id : `D${i + 1}`,
+      what: d.what,
+      reason,
+      detail: typeof d.detail === 'string' ? d.detail : '',
+      would_fix: typeof d.would_fix === 'string' ? d.would_fix : '',
+    });
+  });
+
+  // Next checks; any template is accepted when there is no registry
+  const templates = templateIds(registry);
+  const next_checks: NextCheck[] = [];
+  arrayAt('next_checks').forEach((n, i) => {
+    const path = `next_checks[${i}]`;
+    const checkDrop = (detail: string, would_fix: string) => ({
+      id: `D_N${i + 1}`,
+      what: isObject(n) && isText(n.question) ? n.question : `Next check ${i + 1}`,
+      detail,
+      would_fix,
+    });
+    if (!isObject(n)) {
+      return rejected(path, 'Next check is not an object', n, checkDrop('Next check is not an object', 'Re-run the compile'));
+    }
+    if (!isText(n.template) || (templates.length > 0 && !templates.includes(n.template))) {
+      return rejected(`${path}.template`, 'Missing or unknown template', n.template,
+        checkDrop(isText(n.template) ? `Unknown template "${n.template}"` : 'Next check has no template', 'Use a template from the registry'));
+    }
+    if (!isText(n.question)) {
+      return rejected(`${path}.question`, 'Missing question', n.question, checkDrop('Next check has no question', 'Re-run the compile'));
+    }
+
+    const check: NextCheck = {
+      priority: Number.isInteger(n.priority) ? n.priority : i + 1,
+      owner: isText(n.owner) ? n.owner : 'Unassigned',
+      template: n.template,
+      question: n.question,
+      done_when: typeof n.done_when === 'string' ? n.done_when : '',
+    };
+    if (!Number.isInteger(n.priority)) coerced(`${path}.priority`, 'Priority is not an integer', n.priority);
+    if (!isText(n.owner)) coerced(`${path}.owner`, 'Missing owner', n.owner);
+    if (typeof n.done_when !== 'string') coerced(`${path}.done_when`, 'Missing done_when', n.done_when);
+
+    if (n.slots !== undefined) {
+      if (isObject(n.slots)) {
+        check.slots = {};
+        for (const [key, value] of Object.entries(n.slots)) {
+          if (typeof value === 'string' || typeof value === 'number') {
+            check.slots[key] = value;
+          } else {
+            coerced(`${path}.slots.${key}`, 'Slot value flattened to string', value);
+            check.slots[key] = Array.isArray(value) ? value.join('; ') : JSON.stringify(value);
+          }
+        }
+      } else {
+        coerced(`${path}.slots`, 'Slots must be an object, removed', n.slots);
+      }
+    }
+    next_checks.push(check);
+  });
+
+  return { response: { signals, conflicts, drops, next_checks }, issues };
+}
+
+// Structured list of violations; empty when the response matches the types
+export function validateResponse(raw: unknown, profile: DomainProfile, registry: TemplateRegistry): SchemaViolation[] {
+  return normalizeResponse(raw, profile, registry).issues.map(({ action, ...violation }) => violation);
+}
@@ -0,0 +1,270 @@
+// severity.ts - Recompute signal severity from the profile's calibration rules instead of trusting the model
+
+import { Signal, Conflict, Severity, SignalType } from './types';
+import { Quantity, parseQuantities } from './numbers';
+import { SeverityRow } from './profiles';
+
+export type SeverityMode = 'override' | 'flag';
+
+// A place where the engine and the model disagree, or a cross-signal constraint fired
+export interface SeverityCheck {
+  signal_id: string;
+  type: SignalType;
+  model_severity: Severity;
+  engine_severity: Severity;
+  reason: string;
+  action: 'overridden' | 'flagged';
+}
+
+interface RuleResult {
+  severity: Severity;
+  reason: string;
+}
+
+// Facts the rules can read beyond the signal itself
+interface RuleContext {
+  conflicts: Conflict[];
+}
+
+// `table` is the calibration row the model is shown and every reason quotes, so the prompt and the engine cannot
+// drift apart. `evaluate` returns undefined when the inputs it needs cannot be found in the signal.
+interface SeverityRule {
+  table: SeverityRow;
+  evaluate: (signal: Signal, ctx: RuleContext) => RuleResult | undefined;
+}
+
+const SEVERITY_RANK: Record<Severity, number> = { critical: 0, high: 1, medium: 2, low: 3 };
+
+const COVENANT_KEYWORDS = /covenant|floor|minimum|threshold/i;
+const PRODUCTION_STOP = /production (?:stop|halt)|line (?:stop|down|halt)|plant (?:shutdown|stop)|shut ?down/i;
+const PRODUCTION_IMPACT = /production|plant|manufactur|line/i;
+const PRICE_INCREASE = /increase|escalat|uplift|surcharge|\+\s*\d/i;
+
+function signalText(signal: Signal): string[] {
+  return [String(signal.value ?? ''), ...signal.evidence.map(ev => ev.quote)];
+}
+
+// Money-like amounts: either carry a currency, or are large enough not to be a day/page/year
+function amountsIn(text: string): Quantity[] {
+  return parseQuantities(text).filter(q =>
+    (q.unit && q.unit !== 'hours' && q.unit !== 'percent') ||
+    (!q.unit && q.amount >= 1000 && !(Number.isInteger(q.amount) && q.amount >= 1900 && q.amount <= 2100))
+  );
+}
+
+function percentsIn(texts: string[]): number[] {
+  return texts.flatMap(t => parseQuantities(t)).filter(q => q.unit === 'percent').map(q => q.amount);
+}
+
+// One amount per evidence quote: in the reporting currency when every money amount could be converted,
+// otherwise as written
+function evidenceAmounts(signal: Signal): number[] {
+  const money = signal.evidence.map(ev => ev.money).filter(Boolean);
+  if (money.length >= 2 && money.every(m => m!.reporting)) return money.map(m => m!.reporting!.amount);
+  return signal.evidence.map(ev => amountsIn(ev.quote)[0]).filter(Boolean).map(q => q.amount);
+}
+
+// Largest gap between the first reported amount and any other amount across the evidence
+function discrepancy(signal: Signal): { absolute: number; percent: number } | undefined {
+  const amounts = evidenceAmounts(signal);
+  if (amounts.length < 2 || amounts[0] === 0) return undefined;
+
+  const reported = amounts[0];
+  const absolute = Math.max(...amounts.slice(1).map(a => Math.abs(reported - a)));
+  return { absolute, percent: (absolute / reported) * 100 };
+}
+
+function fmt(n: number): string {
+  return n.toLocaleString('en-US', { maximumFractionDigits: 1 });
+}
+
+// "<label> (rule: HIGH if >5% or >$10k discrepancy)"
+function rated(table: SeverityRow, severity: Severity, label: string): RuleResult {
+  return { severity, reason: `${label} (rule: ${severity.toUpperCase()} if ${table[severity]})` };
+}
+
+const RULES: Partial<Record<SignalType, SeverityRule>> = {
+  'liquidity.cash_discrepancy': {
+    table: { critical: 'N/A', high: '>5% or >$10k discrepancy', medium: '2-5% or $5-10k', low: '<2% and <$5k' },
+    evaluate(signal) {
+      const d = discrepancy(signal);
+      const pct = d?.percent ?? percentsIn(signalText(signal))[0];
+      if (pct === undefined) return undefined;
+      const abs = d?.absolute ?? 0;
+      const label = d ? `discrepancy ${fmt(abs)} (${fmt(pct)}%)` : `discrepancy ${fmt(pct)}%`;
+
+      if (pct > 5 || abs > 10000) return rated(this.table, 'high', label);
+      if (pct >= 2 || abs >= 5000) return rated(this.table, 'medium', label);
+      return rated(this.table, 'low', label);
+    },
+  },
+
+  'ops.inventory_discrepancy': {
+    table: { critical: 'N/A', high: '>2% or >$5k', medium: '1-2%', low: '<1%' },
+    evaluate(signal) {
+      const d = discrepancy(signal);
+      const pct = percentsIn(signalText(signal))[0] ?? d?.percent;
+      if (pct === undefined) return undefined;
+      const abs = d?.absolute ?? 0;
+      const label = `variance ${fmt(pct)}%${d ? ` / ${fmt(abs)}` : ''}`;
+
+      if (pct > 2 || abs > 5000) return rated(this.table, 'high', label);
+      if (pct >= 1) return rated(this.table, 'medium', label);
+      return rated(this.table, 'low', label);
+    },
+  },
+
+  'liquidity.covenant_breach': {
+    table: { critical: 'Breach possible', high: '>80% threshold consumed', medium: '>60% consumed', low: '<60%' },
+    evaluate(signal, ctx) {
+      const thresholdQuote = signal.evidence.find(ev => COVENANT_KEYWORDS.test(ev.quote));
+      const threshold = thresholdQuote ? amountsIn(thresholdQuote.quote)[0] : undefined;
+      if (!threshold) return undefined;
+
+      // Candidate metric values: every cash claim in a liquidity conflict, plus other amounts in the evidence
+      const candidates = [
+        ...ctx.conflicts
+          .filter(c => c.type?.startsWith('liquidity.'))
+          .flatMap(c => c.claims)
+          .filter(cl => cl.definition !== 'restricted')
+          .flatMap(cl => amountsIn(cl.value)),
+        ...signal.evidence.filter(ev => ev !== thresholdQuote).flatMap(ev => amountsIn(ev.quote)),
+      ].map(q => q.amount).filter(a => a > 0);
+      if (candidates.length === 0) return undefined;
+
+      const lowest = Math.min(...candidates);
+      const consumed = (threshold.amount / lowest) * 100;
+      const label = `threshold ${fmt(threshold.amount)} vs lowest reading ${fmt(lowest)} (${fmt(consumed)}% consumed)`;
+
+      if (lowest < threshold.amount) return rated(this.table, 'critical', label);
+      if (consumed > 80) return rated(this.table, 'high', label);
+      if (consumed > 60) return rated(this.table, 'medium', label);
+      return rated(this.table, 'low', label);
+    },
+  },
+
+  // Only evaluated once the exposure is known in the reporting currency
+  'fx.unhedged_payable': {
+    table: { critical: 'N/A', high: '>100k reporting currency', medium: '25-100k', low: '<25k' },
+    evaluate(signal) {
+      const exposure = signal.money?.reporting
+        || signal.evidence.map(ev => ev.money?.reporting).filter(Boolean).sort((a, b) => b!.amount - a!.amount)[0];
+      if (!exposure) return undefined;
+
+      const label = `unhedged exposure ${fmt(exposure.amount)} ${exposure.currency}`;
+      if (exposure.amount > 100000) return rated(this.table, 'high', label);
+      if (exposure.amount > 25000) return rated(this.table, 'medium', label);
+      return rated(this.table, 'low', label);
+    },
+  },
+
+  'logistics.border_delay': {
+    table: { critical: 'Production stops', high: '>24h + production impact', medium: '>24h, no impact', low: '<24h' },
+    evaluate(signal) {
+      const texts = [...signalText(signal), signal.summary];
+      const hours = texts.flatMap(t => parseQuantities(t)).filter(q => q.unit === 'hours').map(q => q.amount);
+      if (hours.length === 0) return undefined;
+
+      const delay = Math.max(...hours);
+      const all = texts.join(' ');
+      const label = `delay ${fmt(delay)}h`;
+
+      if (PRODUCTION_STOP.test(all)) return rated(this.table, 'critical', `${label}, production stops`);
+      if (delay > 24 && PRODUCTION_IMPACT.test(all)) return rated(this.table, 'high', `${label} with production impact`);
+      if (delay > 24) return rated(this.table, 'medium', `${label}, no production impact`);
+      return rated(this.table, 'low', label);
+    },
+  },
+
+  // The stated increase, or the gap between contract and quoted price
+  'procurement.price_escalation': {
+    table: { critical: 'N/A', high: '>10% increase', medium: '5-10%', low: '<5%' },
+    evaluate(signal) {
+      const texts = [...signalText(signal), signal.summary];
+      const pct = percentsIn(texts.filter(t => PRICE_INCREASE.test(t)))[0] ?? discrepancy(signal)?.percent;
+      if (pct === undefined) return undefined;
+
+      const label = `increase ${fmt(pct)}%`;
+      if (pct > 10) return rated(this.table, 'high', label);
+      if (pct >= 5) return rated(this.table, 'medium', label);
+      return rated(this.table, 'low', label);
+    },
+  },
+
+  'security.service_outage': {
+    table: { critical: 'Production stops', high: '>=1h outage', medium: '<1h outage', low: 'Non-production only' },
+    evaluate(signal) {
+      const texts = [...signalText(signal), signal.summary];
+      const all = texts.join(' ');
+      const hours = texts.flatMap(t => parseQuantities(t)).filter(q => q.unit === 'hours').map(q => q.amount);
+
+      if (PRODUCTION_STOP.test(all)) return rated(this.table, 'critical', 'production stops');
+      if (hours.length === 0) return undefined;
+
+      const outage = Math.max(...hours);
+      const label = `outage ${fmt(outage)}h`;
+      if (outage >= 1) return rated(this.table, 'high', label);
+      return rated(this.table, 'medium', label);
+    },
+  },
+};
+
+// Calibration rows for the types the engine evaluates; profiles take these instead of their own (see profiles.ts)
+export function engineSeverityRows(): Partial<Record<SignalType, SeverityRow>> {
+  return Object.fromEntries(Object.entries(RULES).map(([type, rule]) => [type, rule!.table]));
+}
+
+// Evaluate every signal against its rule; override (or only flag) the model's severity where they differ.
+// caps: highest severity per type, for types whose table has no CRITICAL column (see profiles.ts)
+export function applySeverityRules(
+  signals: Signal[],
+  conflicts: Conflict[],
+  mode: SeverityMode = 'override',
+  caps: Partial<Record<SignalType, Severity>> = {}
+): { signals: Signal[]; checks: SeverityCheck[] } {
+  const checks: SeverityCheck[] = [];
+  const ctx: RuleContext = { conflicts };
+  const action = mode === 'override' ? 'overridden' : 'flagged';
+
+  const record = (signal: Signal, engine: Severity, reason: string): Signal => {
+    checks.push({
+      signal_id: signal.id,
+      type: signal.type,
+      model_severity: signal.severity,
+      engine_severity: engine,
+      reason,
+      action,
+    });
+    console.warn(`[severity] ${signal.id} (${signal.type}): model=${signal.severity} engine=${engine} - ${action}`);
+    return mode === 'override' ? { ...signal, severity: engine, severity_reason: reason } : signal;
+  };
+
+  const evaluated = signals.map(signal => {
+    const rule = RULES[signal.type];
+    const result = rule?.evaluate(signal, ctx);
+
+    if (result) {
+      if (result.severity !== signal.severity) return record(signal, result.severity, result.reason);
+      return mode === 'override' ? { ...signal, severity_reason: result.reason } : signal;
+    }
+
+    // No inputs to evaluate, but the severity is above what the table allows
+    const cap = caps[signal.type];
+    if (cap && SEVERITY_RANK[signal.severity] < SEVERITY_RANK[cap]) {
+      return record(signal, cap, `${signal.type} has no CRITICAL level (capped at ${cap.toUpperCase()})`);
+    }
+
+    return signal;
+  });
+
+  // Constraint: do not mark both cash_discrepancy and covenant_breach CRITICAL
+  const covenantCritical = evaluated.some(s => s.type === 'liquidity.covenant_breach' && s.severity === 'critical');
+  const result = evaluated.map(signal => {
+    if (covenantCritical && signal.type === 'liquidity.cash_discrepancy' && signal.severity === 'critical') {
+      return record(signal, 'high', 'cash_discrepancy and covenant_breach cannot both be CRITICAL; the covenant signal carries the risk');
+    }
+    return signal;
+  });
+
+  return { signals: result, checks };
+}
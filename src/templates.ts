@@ -0,0 +1,179 @@
+// templates.ts - Next-check template registry (check-templates.json): slot schemas, canonical wording, rendering
+
+import { readFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { NextCheck } from './types';
+import { parseQuantities } from './numbers';
+import { PROJECT_ROOT } from './packs';
+
+const TEMPLATES_PATH = join(PROJECT_ROOT, 'check-templates.json');
+
+export const SLOT_TYPES = ['text', 'amount', 'number', 'duration', 'date'] as const;
+export type SlotType = typeof SLOT_TYPES[number];
+
+export interface SlotSpec {
+  type: SlotType;
+  required?: boolean;
+  description?: string;
+  aliases?: string[];      // Names the model has used for this slot; renamed to the canonical one
+}
+
+export interface CheckTemplate {
+  description: string;
+  owner: string;           // Default owner when the model gives none
+  question: string;        // {slot} placeholders are filled from the check's slots
+  done_when: string;
+  after?: string[];        // Templates whose checks must be done first (see graph.ts)
+  resolves?: string[];     // Signal and conflict types a check of this template clears
+  slots: Record<string, SlotSpec>;
+}
+
+export interface TemplateRegistry {
+  version: string;
+  templates: Record<string, CheckTemplate>;   // Template ID -> definition
+}
+
+// A next check that does not fit its template
+export interface TemplateIssue {
+  check_id: string;
+  template: string;
+  slot: string;
+  kind: 'missing_slot' | 'invalid_slot' | 'unknown_slot';
+  detail: string;
+}
+
+const EMPTY_REGISTRY: TemplateRegistry = { version: 'none', templates: {} };
+
+const PLACEHOLDER = /\{([a-z0-9_]+)\}/gi;
+
+// Next checks have no model IDs; issues refer to them by position until stable IDs are assigned
+export const positionalCheckId = (index: number): string => `N${index + 1}`;
+
+// Placeholders that name no slot would never render; reported once per load
+function registryWarnings(registry: TemplateRegistry): string[] {
+  const warnings: string[] = [];
+  for (const [id, template] of Object.entries(registry.templates)) {
+    for (const [name, spec] of Object.entries(template.slots || {})) {
+      if (!SLOT_TYPES.includes(spec.type)) warnings.push(`${id}.${name}: unknown slot type "${spec.type}", read as text`);
+    }
+    for (const dependency of template.after || []) {
+      if (!registry.templates[dependency]) warnings.push(`${id}: after names unknown template "${dependency}"`);
+    }
+    for (const text of [template.question, template.done_when]) {
+      for (const [, name] of (text || '').matchAll(PLACEHOLDER)) {
+        if (!template.slots?.[name]) warnings.push(`${id}: placeholder {${name}} is not a slot`);
+      }
+    }
+  }
+  return warnings;
+}
+
+// Read on every compile so a new template applies without a restart
+export function loadTemplates(): TemplateRegistry {
+  if (!existsSync(TEMPLATES_PATH)) {
+    console.warn('[templates] check-templates.json not found - next checks will not be validated');
+    return EMPTY_REGISTRY;
+  }
+
+  try {
+    const registry: TemplateRegistry = JSON.parse(readFileSync(TEMPLATES_PATH, 'utf-8'));
+    for (const warning of registryWarnings(registry)) console.warn(`[templates] ${warning}`);
+    return registry;
+  } catch (e) {
+    console.error('[templates] Failed to load check-templates.json:', e);
+    return EMPTY_REGISTRY;
+  }
+}
+
+export function templateIds(registry: TemplateRegistry): string[] {
+  return Object.keys(registry.templates);
+}
+
+// Every canonical slot name across the registry, for the response schema
+export function slotNames(registry: TemplateRegistry): string[] {
+  return [...new Set(Object.values(registry.templates).flatMap(t => Object.keys(t.slots || {})))];
+}
+
+// Undefined unless every placeholder in `text` has a slot value
+export function renderTemplate(text: string, slots: NextCheck['slots'] = {}): string | undefined {
+  const names = [...text.matchAll(PLACEHOLDER)].map(m => m[1]);
+  if (names.some(name => slots[name] === undefined || String(slots[name]).trim() === '')) return undefined;
+  return text.replace(PLACEHOLDER, (_, name) => String(slots[name]).trim());
+}
+
+// Why a slot value does not fit its type, or undefined if it does
+function slotError(value: string | number, type: SlotType): string | undefined {
+  const text = String(value);
+  const quantities = parseQuantities(text);
+  const plain = quantities.filter(q => q.unit !== 'hours' && q.unit !== 'percent');
+
+  switch (type) {
+    case 'amount':
+    case 'number':
+      return plain.length > 0 ? undefined : `expected ${type === 'amount' ? 'an amount' : 'a number'}`;
+    case 'duration':
+      return quantities.some(q => q.unit === 'hours') || !isNaN(Date.parse(text)) ? undefined : 'expected a duration or date';
+    case 'date':
+      return /\d{4}-\d{2}-\d{2}/.test(text) || !isNaN(Date.parse(text)) ? undefined : 'expected a date';
+    default:
+      return undefined;
+  }
+}
+
+// Rename aliased slots, report missing/invalid/unknown ones, and render the canonical question and done_when
+export function applyTemplates(
+  checks: NextCheck[],
+  registry: TemplateRegistry
+): { next_checks: NextCheck[]; issues: TemplateIssue[] } {
+  const issues: TemplateIssue[] = [];
+  let renamed = 0;
+  let rendered = 0;
+
+  const next_checks = checks.map((check, i) => {
+    const template = registry.templates[check.template];
+    if (!template) return check;
+
+    const specs = template.slots || {};
+    const canonical = (name: string) =>
+      specs[name] ? name : Object.keys(specs).find(slot => specs[slot].aliases?.includes(name));
+    const issue = (slot: string, kind: TemplateIssue['kind'], detail: string) =>
+      issues.push({ check_id: positionalCheckId(i), template: check.template, slot, kind, detail });
+
+    const slots: NonNullable<NextCheck['slots']> = {};
+    for (const [name, value] of Object.entries(check.slots || {})) {
+      if (String(value).trim() === '') continue;
+      const slot = canonical(name);
+      if (!slot) {
+        issue(name, 'unknown_slot', `${check.template} has no slot "${name}"`);
+        slots[name] = value;
+        continue;
+      }
+      if (slot !== name) renamed++;
+      if (slots[slot] !== undefined) continue;
+
+      slots[slot] = value;
+      const error = slotError(value, SLOT_TYPES.includes(specs[slot].type) ? specs[slot].type : 'text');
+      if (error) issue(slot, 'invalid_slot', `"${value}": ${error}`);
+    }
+
+    const missing = Object.keys(specs).filter(slot => specs[slot].required && slots[slot] === undefined);
+    for (const slot of missing) issue(slot, 'missing_slot', `Required by ${check.template}`);
+
+    const question = renderTemplate(template.question, slots);
+    const doneWhen = renderTemplate(template.done_when, slots);
+    if (question) rendered++;
+
+    return {
+      ...check,
+      owner: check.owner && check.owner !== 'Unassigned' ? check.owner : template.owner,
+      question: question || check.question,
+      done_when: doneWhen || check.done_when,
+      ...(Object.keys(slots).length ? { slots } : {}),
+      ...(missing.length ? { missing_slots: missing } : {}),
+    };
+  });
+
+  const count = (kind: TemplateIssue['kind']) => issues.filter(i => i.kind === kind).length;
+  console.log(`[templates] ${checks.length} next checks: ${rendered} rendered, ${renamed} slots renamed, ${count('missing_slot')} missing, ${count('invalid_slot')} invalid, ${count('unknown_slot')} unknown (registry ${registry.version})`);
+  return { next_checks, issues };
+}
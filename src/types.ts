@@ -7,9 +7,18 @@ export interface SignalPack {
   drops: Drop[];
   conflicts: Conflict[];
   next_checks: NextCheck[];
+  run_id?: string;      // Stored run this pack was saved as (or served from, when cached)
+  cache?: CacheStatus;
   _cached?: boolean;
 }
 
+// How a compile result relates to the compile cache
+export interface CacheStatus {
+  status: 'hit' | 'miss' | 'forced' | 'fallback';   // fallback = live compile failed, last run served
+  key: string;
+  stale?: boolean;      // Fallback only: the pack's documents changed since that run
+}
+
 export interface Signal {
   id: string;
   type: SignalType;
@@ -19,9 +28,11 @@ export interface Signal {
   owner: string;
   value?: string | number;
   unit?: string;
+  money?: MoneyValue;         // Parsed from value by money.ts, never by the model
   evidence: EvidenceSpan[];
   recommended_check: string;
   blocker_for?: string[];     // IDs of signals this blocks
+  review?: ItemReview;        // Reviewed views only (see reviews.ts)
 }
 
 export interface EvidenceSpan {
@@ -30,18 +41,48 @@ export interface EvidenceSpan {
   page?: number;         // Page number (1-indexed)
   line?: number;         // Line number for text docs
   bbox?: [number, number, number, number];  // [x, y, width, height] for scans (0-1 normalized)
+  sheet?: string;        // Sheet name for spreadsheets
+  cell?: string;         // Cell reference for spreadsheets (e.g. "B4")
+  grounding?: Grounding; // Set by the grounding check, never by the model
+  money?: MoneyValue;    // First amount in the quote, parsed by money.ts
+}
+
+// Result of matching a quote against the extracted PDF text
+export interface Grounding {
+  status: GroundingStatus;
+  score: number;         // 0-1 fuzzy match score on the best page
+  matched_page?: number; // Page where the quote was actually found, if different from the claimed one
+  matched_line?: number; // Same for text/email documents
+  matched_cell?: string; // Same for spreadsheets ("Sheet!B4")
 }
 
+export type GroundingStatus =
+  | 'verified'           // Found on the claimed page
+  | 'relocated'          // Found, but on a different page than claimed
+  | 'no_text_layer'      // Scan without extractable text - cannot be checked
+  | 'not_found';         // Quote does not appear in the source document
+
 // For money-like claims, track exactly what the number means
 export interface MoneyValue {
   amount: number;
   currency: string;
   definition: CashDefinition;
-  value_date: string;    // ISO date when this value was recorded
+  value_date?: string;   // ISO date when this value was recorded, if the source states it
+  reporting?: ReportingAmount;
+}
+
+// A MoneyValue converted with the FX rate table (see money.ts)
+export interface ReportingAmount {
+  amount: number;
+  currency: string;      // The pack's reporting currency
+  rate: number;          // Reporting currency units per unit of the original currency
+  rate_date: string;     // Table date the rate was taken from (on or before value_date)
+  fx_version: string;
 }
 
 // Cash definitions - 'unknown' for unclassified internal figures
-export type CashDefinition = 'ledger' | 'available' | 'restricted' | 'unrestricted' | 'internal_reported' | 'unknown';
+export const CASH_DEFINITIONS = ['ledger', 'available', 'restricted', 'unrestricted', 'internal_reported', 'unknown'] as const;
+export type CashDefinition = typeof CASH_DEFINITIONS[number];
 
 export interface Drop {
   id: string;
@@ -49,102 +90,98 @@ export interface Drop {
   reason: DropReason;
   detail: string;        // Human explanation
   would_fix: string;     // What input would help
+  review?: ItemReview;
 }
 
 export interface Conflict {
   id: string;
-  type: ConflictType;    // Canonical taxonomy
+  type: ConflictType;    // Canonical taxonomy of the pack's profile
   topic: string;         // Human-readable topic for UI
   claims: ConflictClaim[];
   how_to_resolve: string;
   flags?: ConflictFlag[];
+  review?: ItemReview;
 }
 
-// Canonical conflict taxonomy - stable across cases
-export type ConflictType =
-  | 'liquidity.cash_definition'    // Cash values with different/unclear definitions
-  | 'liquidity.cash_amount'        // Same definition, different amounts
-  | 'logistics.eta'                // Delivery/clearance time discrepancies
-  | 'logistics.quantity'           // Shipped vs received quantities
-  | 'quality.conformance'          // Pass vs fail on same spec
-  | 'sales.payment_terms'          // Disputed payment terms
-  | 'ops.inventory_count';         // Inventory count discrepancies
-
-export type ConflictFlag =
-  | 'VALUE_DATE_MISMATCH'    // Claims have different as-of dates
-  | 'DEFINITION_UNKNOWN'     // One or more claims has unknown definition
-  | 'BLOCKER';               // This conflict blocks downstream calculations
+// Conflict type ID from the pack's domain profile (profiles/<id>.json, see profiles.ts)
+export type ConflictType = string;
+
+export const CONFLICT_FLAGS = [
+  'VALUE_DATE_MISMATCH',   // Claims have different as-of dates
+  'DEFINITION_UNKNOWN',    // One or more claims has unknown definition
+  'BLOCKER',               // This conflict blocks downstream calculations
+] as const;
+export type ConflictFlag = typeof CONFLICT_FLAGS[number];
 
 export interface ConflictClaim {
   source: string;
   value: string;
   quote: string;
   page?: number;
+  line?: number;
+  sheet?: string;
+  cell?: string;
   definition?: string;   // For money: ledger/available/restricted/unrestricted
   value_date?: string;   // ISO date for time-sensitive values
+  grounding?: Grounding;
+  money?: MoneyValue;    // Parsed from value by money.ts
 }
 
 // Template-based next checks - generalizable, not case-specific
 export interface NextCheck {
-  priority: number;
+  id?: string;                   // Stable ID (N-<hash>), assigned after verification
+  priority: number;              // Dependency order, blockers first (see graph.ts)
+  model_priority?: number;       // The model's priority, when the dependency order changed it
   owner: string;
   template: NextCheckTemplate;   // Canonical template ID
   question: string;              // Rendered question (filled from template)
   done_when: string;             // Definition of done
   slots?: Record<string, string | number>;  // Case-specific values that fill the template
+  missing_slots?: string[];      // Required slots of the template the model left empty
+  result?: string;               // What executing the check found (see covenant.ts)
+  // Lifecycle, recorded by reviewers and carried over between runs (see checks.ts)
+  status?: CheckStatus;
+  assignee?: string;
+  answer?: string;
+  attachments?: string[];        // doc_ids of supporting files
+  updated_at?: string;
+  review?: ItemReview;
+}
+
+export const CHECK_STATUSES = ['open', 'in_progress', 'done', 'blocked'] as const;
+export type CheckStatus = typeof CHECK_STATUSES[number];
+
+// Human gate on compiled output. Recorded per run and applied as an overlay; the stored run is never changed.
+export const REVIEW_STATUSES = ['pending', 'accepted', 'rejected', 'edited'] as const;
+export type ReviewStatus = typeof REVIEW_STATUSES[number];
+
+// What a signal, conflict, drop or next check carries in a reviewed view of a run
+export interface ItemReview {
+  status: ReviewStatus;
+  reviewer?: string;
+  comment?: string;
+  reviewed_at?: string;
+  original?: Record<string, unknown>;   // Compiled values of the fields a reviewer edited
 }
 
-// Canonical next-check templates
-export type NextCheckTemplate =
-  | 'cash_reconciliation'        // Reconcile internal vs bank, enumerate restricted items
-  | 'covenant_threshold_check'   // Verify metric >= threshold per covenant definition
-  | 'eta_confirmation'           // Confirm delivery/clearance ETA with authoritative source
-  | 'quantity_verification'      // Verify quantity with source documents
-  | 'quality_retest'             // Retest product against spec
-  | 'payment_status'             // Confirm payment status with customer/bank
-  | 'restricted_classification'; // Determine if restricted items count toward covenant metric
-
-export type SignalType =
-  | 'liquidity.cash_discrepancy'
-  | 'liquidity.covenant_breach'
-  | 'liquidity.near_term_outflows'
-  | 'quality.nonconformance'
-  | 'sales.ar_at_risk'
-  | 'ops.inventory_discrepancy'
-  | 'ops.receipt_discrepancy'
-  | 'logistics.border_delay'
-  | 'fx.unhedged_payable';
-
-export type Severity = 'critical' | 'high' | 'medium' | 'low';
-
-// Severity calibration rules
-export const SEVERITY_RULES: Record<string, { threshold: string; rule: string }> = {
-  'liquidity.covenant_breach': {
-    threshold: 'Any',
-    rule: 'CRITICAL if covenant breach is possible; HIGH if >80% of threshold consumed'
-  },
-  'liquidity.cash_discrepancy': {
-    threshold: '>5% or >$10,000',
-    rule: 'HIGH if discrepancy >5% of reported value or >$10,000; MEDIUM otherwise'
-  },
-  'quality.nonconformance': {
-    threshold: 'Any spec failure',
-    rule: 'CRITICAL if safety-related; HIGH if customer-facing; MEDIUM if internal-only'
-  },
-  'ops.inventory_discrepancy': {
-    threshold: '>2% or >$5,000',
-    rule: 'HIGH if >2% variance or >$5,000; MEDIUM if 1-2%; LOW if <1%'
-  },
-  'logistics.border_delay': {
-    threshold: '>24h delay',
-    rule: 'HIGH if delay >24h and affects production; MEDIUM if >24h without production impact; LOW if <24h'
-  }
-};
-
-export type DropReason =
-  | 'MISSING_EVIDENCE'
-  | 'AMBIGUOUS'
-  | 'REFERENCED_NOT_ATTACHED';
+// ID of a template in the registry (check-templates.json, see templates.ts)
+export type NextCheckTemplate = string;
+
+// Signal type ID from the pack's domain profile
+export type SignalType = string;
+
+export const SEVERITIES = ['critical', 'high', 'medium', 'low'] as const;
+export type Severity = typeof SEVERITIES[number];
+
+export const DROP_REASONS = [
+  'MISSING_EVIDENCE',
+  'AMBIGUOUS',
+  'REFERENCED_NOT_ATTACHED',
+  'QUOTE_NOT_FOUND',
+  'VALUE_NOT_IN_QUOTE',
+  'SCHEMA_VIOLATION',
+] as const;
+export type DropReason = typeof DROP_REASONS[number];
 
 // Raw response from Gemini (before we add metadata)
 export interface GeminiSignalResponse {
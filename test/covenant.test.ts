@@ -0,0 +1,39 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CovenantResult, applyCovenantResult } from '../src/covenant';
+import { RunEvidencePack } from '../src/runs';
+import { NextCheck } from '../src/types';
+
+const check: NextCheck = {
+  id: 'N-1',
+  priority: 1,
+  owner: 'Treasury',
+  template: 'covenant_threshold_check',
+  question: 'Does unrestricted cash clear the covenant floor?',
+  done_when: 'Headroom is confirmed',
+  status: 'open',
+};
+
+const result: CovenantResult = {
+  computed_at: '2026-10-19T12:00:00.000Z',
+  currency: 'USD',
+  answers: { restricted_counts: 'no' },
+  reconciliation: [],
+  differences: [],
+  checks: [{
+    check_id: 'N-1',
+    priority: 1,
+    template: 'covenant_threshold_check',
+    status: 'computed',
+    result: 'Unrestricted cash 62,118.00 USD vs threshold 50,000.00: PASS, headroom 12,118.00 (24.2%)',
+  }],
+};
+
+test('a computed covenant result is shown on the check without closing or answering it', () => {
+  const run = { run_meta: { run_id: 'r1', pack_id: 'p1' }, next_checks: [check] } as unknown as RunEvidencePack;
+  const [applied] = applyCovenantResult(run, result).next_checks;
+
+  assert.equal(applied.result, result.checks[0].result);
+  assert.equal(applied.status, 'open');
+  assert.equal(applied.answer, undefined);
+});
@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { groundEvidence, SourceDocument } from '../src/grounding';
+import { Signal, Conflict } from '../src/types';
+
+const docs: SourceDocument[] = [
+  { doc_id: 'weekly-pack', filename: 'packs/weekly-pack.pdf', pages: ['Cash on hand (USD) 85,240 as reported by Treasury'] },
+  { doc_id: 'email-thread', filename: 'packs/email-thread.pdf', pages: ['current unrestricted balance is USD 62,118'] },
+];
+
+const signal = (evidence: Signal['evidence']): Signal => ({
+  id: 'S1',
+  type: 'liquidity.cash_discrepancy',
+  summary: 'Cash differs between Treasury and the bank',
+  severity: 'high',
+  owner: 'Treasury',
+  evidence,
+  recommended_check: '',
+});
+
+test('a signal keeps its grounded evidence and each unfound span becomes its own drop', () => {
+  const result = groundEvidence([signal([
+    { source: 'weekly-pack.pdf', quote: 'Cash on hand (USD) 85,240', page: 1 },
+    { source: 'email-thread.pdf', quote: 'the bank confirmed 99,999 in the sweep account', page: 1 },
+    { source: 'board-deck.pdf', quote: 'cash is fine', page: 2 },
+  ])], [], docs);
+
+  assert.equal(result.signals.length, 1);
+  assert.deepEqual(result.signals[0].evidence.map(ev => ev.source), ['weekly-pack.pdf']);
+  assert.deepEqual(result.drops.map(d => d.id), ['D_S1_2', 'D_S1_3']);
+  assert.ok(result.drops.every(d => d.reason === 'QUOTE_NOT_FOUND'));
+  assert.equal(result.drops[0].what, 'Cash differs between Treasury and the bank: evidence from email-thread.pdf');
+  assert.match(result.drops[1].detail, /not part of this pack/);
+  assert.equal(result.summary.not_found, 2);
+});
+
+test('a signal with no grounded evidence is dropped as a whole', () => {
+  const result = groundEvidence([signal([
+    { source: 'email-thread.pdf', quote: 'the bank confirmed 99,999 in the sweep account', page: 1 },
+  ])], [], docs);
+
+  assert.equal(result.signals.length, 0);
+  assert.deepEqual(result.drops.map(d => d.id), ['D_S1']);
+});
+
+test('a conflict loses unfound claims and is dropped below two claims', () => {
+  const conflict = (claims: Conflict['claims']): Conflict => ({
+    id: 'C1', type: 'liquidity.cash_definition', topic: 'Cash Position', claims, how_to_resolve: '',
+  });
+  const found = [
+    { source: 'weekly-pack.pdf', value: '85,240', quote: 'Cash on hand (USD) 85,240' },
+    { source: 'email-thread.pdf', value: '62,118', quote: 'current unrestricted balance is USD 62,118' },
+  ];
+  const missing = { source: 'email-thread.pdf', value: '41,984', quote: 'available balance is USD 41,984' };
+
+  const kept = groundEvidence([], [conflict([...found, missing])], docs);
+  assert.equal(kept.conflicts[0].claims.length, 2);
+  assert.deepEqual(kept.drops.map(d => d.id), ['D_C1_3']);
+
+  const dropped = groundEvidence([], [conflict([found[0], missing])], docs);
+  assert.equal(dropped.conflicts.length, 0);
+  assert.deepEqual(dropped.drops.map(d => d.id), ['D_C1_2', 'D_C1']);
+});
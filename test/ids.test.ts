@@ -0,0 +1,69 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { IdentifiedFindings, assignStableIds } from '../src/ids';
+import { SourceDocument } from '../src/grounding';
+import { Signal, Conflict, Drop } from '../src/types';
+
+const docs: SourceDocument[] = [
+  { doc_id: 'weekly-pack', filename: 'packs/weekly-pack.pdf', pages: ['Cash on hand (USD) 85,240'] },
+  { doc_id: 'email-thread', filename: 'packs/email-thread.pdf', pages: ['current unrestricted balance is USD 62,118'] },
+];
+
+const signal = (id: string, quote: string, blockerFor?: string[]): Signal => ({
+  id,
+  type: 'liquidity.cash_discrepancy',
+  summary: 'Cash differs between Treasury and the bank',
+  severity: 'high',
+  owner: 'Treasury',
+  evidence: [{ source: 'weekly-pack.pdf', quote, page: 1 }],
+  recommended_check: `Reconcile ${id}`,
+  ...(blockerFor ? { blocker_for: blockerFor } : {}),
+});
+
+const conflict = (id: string): Conflict => ({
+  id,
+  type: 'liquidity.cash_definition',
+  topic: 'Cash Position',
+  claims: [
+    { source: 'weekly-pack.pdf', value: '85,240', quote: 'Cash on hand (USD) 85,240' },
+    { source: 'email-thread.pdf', value: '62,118', quote: 'current unrestricted balance is USD 62,118' },
+  ],
+  how_to_resolve: '',
+});
+
+const findings = (signals: Signal[], conflicts: Conflict[], drops: Drop[] = []): IdentifiedFindings => ({
+  signals, conflicts, drops, next_checks: [], value_issues: [], severity_checks: [], template_issues: [],
+});
+
+test('a signal and a conflict with the same model ID keep their own stable IDs', () => {
+  const result = assignStableIds(findings([signal('X1', 'Cash on hand (USD) 85,240')], [conflict('X1')]), docs, {});
+
+  assert.match(result.signals[0].id, /^S-/);
+  assert.match(result.conflicts[0].id, /^C-/);
+  assert.equal(result.id_map.X1, result.signals[0].id);
+});
+
+test('two signals with the same model ID get different IDs and references point to the first', () => {
+  const result = assignStableIds(findings([
+    signal('S1', 'Cash on hand (USD) 85,240'),
+    signal('S1', 'Bank balance 62,118'),
+    signal('S2', 'Sweep pending', ['S1']),
+  ], []), docs, {});
+
+  const [first, second, third] = result.signals.map(s => s.id);
+  assert.notEqual(first, second);
+  assert.deepEqual(result.signals[2].blocker_for, [first]);
+  assert.equal(result.signals[1].recommended_check, `Reconcile ${first}`);
+  assert.equal(result.id_map.S2, third);
+});
+
+test('a drop gets a new ID when the document it names changes', () => {
+  const drop: Drop = {
+    id: 'D_S1_2', what: 'Cash differs: evidence from email-thread.pdf', reason: 'QUOTE_NOT_FOUND', detail: '', would_fix: '',
+  };
+  const id = (hashes: Record<string, string>) => assignStableIds(findings([], [], [drop]), docs, hashes).drops[0].id;
+
+  const before = id({ 'weekly-pack': 'aaa', 'email-thread': 'bbb' });
+  assert.equal(id({ 'weekly-pack': 'ccc', 'email-thread': 'bbb' }), before);
+  assert.notEqual(id({ 'weekly-pack': 'aaa', 'email-thread': 'ddd' }), before);
+});
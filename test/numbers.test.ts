@@ -0,0 +1,44 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseQuantities } from '../src/numbers';
+import { parseMoney } from '../src/money';
+
+const amounts = (text: string) => parseQuantities(text).map(q => [q.amount, q.unit]);
+
+test('space-grouped amounts next to a currency are one number', () => {
+  assert.deepEqual(parseMoney('1 234,56 €'), { amount: 1234.56, currency: 'EUR', definition: 'unknown' });
+  assert.deepEqual(parseMoney('EUR 20 200'), { amount: 20200, currency: 'EUR', definition: 'unknown' });
+  assert.deepEqual(amounts('balance of 1 234 567 USD'), [[1234567, 'USD']]);
+});
+
+test('space-separated numbers without a currency stay separate', () => {
+  assert.deepEqual(amounts('shipped 2 100 t'), [[2, undefined], [100, undefined]]);
+});
+
+test('a leading minus sign is kept', () => {
+  assert.deepEqual(parseMoney('-5,000 USD'), { amount: -5000, currency: 'USD', definition: 'unknown' });
+  assert.deepEqual(amounts('USD -1,250.50'), [[-1250.5, 'USD']]);
+  assert.deepEqual(amounts('net −3.5%'), [[-3.5, 'percent']]);
+});
+
+test('parenthesised amounts are negative', () => {
+  assert.deepEqual(amounts('variance (5,000)'), [[-5000, undefined]]);
+  assert.deepEqual(amounts('variance (1.234,56 €)'), [[-1234.56, 'EUR']]);
+  assert.deepEqual(amounts('cost overrun (2.5m)'), [[-2500000, undefined]]);
+  assert.deepEqual(amounts('see note (1)'), [[1, undefined]]);
+  assert.deepEqual(amounts('INV-1047 (USD 16,400)'), [[1047, undefined], [16400, 'USD']]);
+});
+
+test('a single dot group is thousands only when a currency is written', () => {
+  assert.deepEqual(parseMoney('EUR 1.234'), { amount: 1234, currency: 'EUR', definition: 'unknown' });
+  assert.deepEqual(amounts('1.234 €'), [[1234, 'EUR']]);
+  assert.deepEqual(amounts('USD 4.48'), [[4.48, 'USD']]);
+  assert.deepEqual(amounts('USD 1.250m'), [[1250000, 'USD']]);
+  assert.deepEqual(amounts('ratio 1.234'), [[1.234, undefined]]);
+});
+
+test('ranges, dates and IDs do not pick up a minus sign', () => {
+  assert.deepEqual(amounts('5-7 days'), [[120, 'hours'], [168, 'hours']]);
+  assert.deepEqual(amounts('2026-01-21'), [[2026, undefined], [1, undefined], [21, undefined]]);
+  assert.deepEqual(amounts('EUR 10-12k'), [[10000, 'EUR'], [12000, undefined]]);
+});
@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeResponse } from '../src/schema';
+import { loadProfile, profileTemplates } from '../src/profiles';
+import { loadTemplates } from '../src/templates';
+
+const profile = loadProfile('treasury_ops')!;
+const templates = profileTemplates(profile, loadTemplates());
+
+const signal = (evidence: unknown[]) => ({
+  id: 'S1',
+  type: 'liquidity.cash_discrepancy',
+  summary: 'Cash differs between Treasury and the bank',
+  severity: 'high',
+  owner: 'Treasury',
+  evidence,
+  recommended_check: '',
+});
+
+test('each evidence span removed from a kept signal becomes its own drop', () => {
+  const { response, issues } = normalizeResponse({
+    signals: [signal([
+      { source: 'weekly-pack.pdf', quote: 'Cash on hand (USD) 85,240', page: 1 },
+      { source: 'email-thread.pdf', page: 1 },
+      'USD 62,118',
+    ])],
+    conflicts: [],
+    drops: [],
+    next_checks: [],
+  }, profile, templates);
+
+  assert.equal(response.signals.length, 1);
+  assert.equal(response.signals[0].evidence.length, 1);
+  assert.deepEqual(response.drops.map(d => [d.id, d.what, d.reason]), [
+    ['D_S1_e2', 'Cash differs between Treasury and the bank: evidence from email-thread.pdf', 'SCHEMA_VIOLATION'],
+    ['D_S1_e3', 'Cash differs between Treasury and the bank: evidence 3', 'SCHEMA_VIOLATION'],
+  ]);
+  assert.deepEqual(issues.filter(i => i.action === 'dropped').map(i => i.path), [
+    'signals[0].evidence[1]',
+    'signals[0].evidence[2]',
+  ]);
+});
+
+test('a claim without a quote is dropped with a claim drop', () => {
+  const { response } = normalizeResponse({
+    signals: [],
+    conflicts: [{
+      id: 'C1',
+      type: 'liquidity.cash_definition',
+      topic: 'Cash Position',
+      claims: [
+        { source: 'weekly-pack.pdf', value: '85,240', quote: 'Cash on hand (USD) 85,240' },
+        { source: 'email-thread.pdf', value: '62,118' },
+      ],
+      how_to_resolve: 'Agree on a cash definition',
+    }],
+    drops: [],
+    next_checks: [],
+  }, profile, templates);
+
+  assert.equal(response.conflicts[0].claims.length, 1);
+  assert.deepEqual(response.drops.map(d => [d.id, d.what]), [['D_C1_2', 'Cash Position: claim from email-thread.pdf']]);
+});
@@ -0,0 +1,36 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { applySeverityRules, engineSeverityRows } from '../src/severity';
+import { listProfiles, loadProfile, severityCaps } from '../src/profiles';
+import { Signal } from '../src/types';
+
+test('every profile shows the engine its thresholds for the types the engine evaluates', () => {
+  const engine = engineSeverityRows();
+  for (const profile of listProfiles()) {
+    for (const type of Object.keys(profile.signal_types)) {
+      const row = engine[type as keyof typeof engine];
+      if (row) assert.deepEqual(profile.severity_rules[type], row, `${profile.id}: ${type}`);
+    }
+  }
+});
+
+test('engine reasons quote the calibration row the model was given', () => {
+  const profile = loadProfile('treasury_ops')!;
+  const signal: Signal = {
+    id: 'S1',
+    type: 'liquidity.cash_discrepancy',
+    summary: 'Cash differs between Treasury and the bank',
+    severity: 'low',
+    owner: 'Treasury',
+    evidence: [
+      { source: 'weekly-pack.pdf', quote: 'Cash on hand (USD) 85,240' },
+      { source: 'email-thread.pdf', quote: 'current unrestricted balance is USD 62,118' },
+    ],
+    recommended_check: '',
+  };
+
+  const { signals, checks } = applySeverityRules([signal], [], 'override', severityCaps(profile));
+  assert.equal(signals[0].severity, 'high');
+  assert.equal(checks[0].engine_severity, 'high');
+  assert.ok(signals[0].severity_reason!.endsWith(`(rule: HIGH if ${profile.severity_rules['liquidity.cash_discrepancy'].high})`));
+});
@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { traceValues } from '../src/numbers';
+import { Signal, Conflict } from '../src/types';
+
+const signal = (value: string, unit: string | undefined, quote: string): Signal => ({
+  id: 'S1',
+  type: 'liquidity.cash_discrepancy',
+  summary: 'Cash differs between Treasury and the bank',
+  severity: 'high',
+  owner: 'Treasury',
+  evidence: [{ source: 'email-thread.pdf', quote, page: 1 }],
+  recommended_check: '',
+  value,
+  unit,
+});
+
+const conflict = (value: string, quote: string): Conflict => ({
+  id: 'C1',
+  type: 'liquidity.cash_definition',
+  topic: 'Cash Position',
+  claims: [
+    { source: 'weekly-pack.pdf', value: '85,240', quote: 'Cash on hand (USD) 85,240' },
+    { source: 'email-thread.pdf', value, quote },
+  ],
+  how_to_resolve: '',
+});
+
+test('a bare value with a known EUR currency is not traced to a USD amount', () => {
+  const flagged = traceValues([signal('62,118', 'EUR', 'current unrestricted balance is USD 62,118')], []);
+  assert.deepEqual(flagged.issues.map(i => i.target), ['S1']);
+
+  const traced = traceValues([signal('62,118', 'EUR', 'current unrestricted balance is EUR 62,118')], []);
+  assert.equal(traced.issues.length, 0);
+});
+
+test('a bare value takes the currency written elsewhere in the same value', () => {
+  const flagged = traceValues([signal('EUR 20,200 / 62,118', undefined, 'EUR 20,200 sweep, USD 62,118 balance')], []);
+  assert.deepEqual(flagged.issues.map(i => i.target), ['S1']);
+
+  const dropped = traceValues([], [conflict('EUR 20,200 / 62,118', 'EUR 20,200 sweep, USD 62,118 balance')]);
+  assert.equal(dropped.conflicts.length, 0);
+  assert.deepEqual(dropped.drops.map(d => d.id), ['D_C1_v2', 'D_C1']);
+
+  const kept = traceValues([], [conflict('EUR 20,200 / 62,118', 'EUR 20,200 sweep, EUR 62,118 balance')]);
+  assert.equal(kept.conflicts[0].claims.length, 2);
+});
+
+test('a bare value with no known currency matches any amount', () => {
+  const traced = traceValues([signal('62,118', undefined, 'current unrestricted balance is USD 62,118')], []);
+  assert.equal(traced.issues.length, 0);
+});